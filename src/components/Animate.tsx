@@ -1,15 +1,53 @@
-import React, { cloneElement, useImperativeHandle, useRef } from "react";
+import React, {
+  cloneElement,
+  useContext,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+} from "react";
 
 import { useAnimation } from "../hooks/animations/useAnimation.ts";
+import { useLayoutAnimation } from "../hooks/animations/useLayoutAnimation.ts";
+import { usePresence } from "../hooks/animations/usePresence.ts";
 import { useUpdate } from "../hooks/animations/useUpdate.ts";
 import { ensuredForwardRef } from "../hooks/misc/ensuredForwardRef.ts";
+import { useLatest } from "../hooks/states/useLatest.ts";
+import { identityLayoutTransform } from "../logic/layout.ts";
+import type { LayoutSprings } from "../types/animations.ts";
 import type {
   AnimateComponentProps,
   AnimateComponentRef,
+  VariantContextData,
 } from "../types/components.ts";
 import type { AnimatableProps } from "../types/logic.ts";
 import { isFunction } from "../utils/isFunction.ts";
-import { isObjectType } from "../utils/isObject.ts";
+import { isObject } from "../utils/isObject.ts";
+import { isUndefined } from "../utils/isUndefined.ts";
+
+import { AnimateGroupContext } from "./AnimateGroup.tsx";
+
+/**
+ * The default Variant context, for the elements
+ * outside of an `{@link Animate}`.
+ */
+export const defaultVariantContext: VariantContextData = () => null;
+
+/**
+ * The Variant context.
+ *
+ * This context provides the names of the variants
+ * that an `{@link Animate}` propagates to the Animate
+ * components within it.
+ *
+ * @example
+ * ```tsx
+ * const variants = useContext(VariantContext)()
+ * ```
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const VariantContext = React.createContext(defaultVariantContext);
 
 /**
  * The Animate component.
@@ -42,17 +80,90 @@ import { isObjectType } from "../utils/isObject.ts";
  * </Animate>
  * ```
  *
+ * The spring can also be configured with a preset or physical
+ * parameters, e.g. `config="wobbly"` or `config={{ stiffness: 300, damping: 20 }}`.
+ *
+ * 3D effects compose the transform with a perspective, an origin and
+ * an order, e.g. for a card flip:
+ *
+ * ```tsx
+ * <Animate
+ *   perspective={800}
+ *   rotateY={flipped ? 180 : 0}
+ *   transformOrigin="center"
+ *   transformOrder={["rotate", "translate"]}
+ * >
+ *   <div>Card</div>
+ * </Animate>
+ * ```
+ *
+ * Inside an `{@link AnimatePresence}`, the component animates to its
+ * `exit` props when it is removed, and is unmounted after that.
+ *
+ * The props can be named in `variants`, with `animate` and `initial`
+ * set to the name of a variant. The names of the variants propagate to
+ * the Animate components within, unless they set their own, so that a
+ * parent can orchestrate its subtree:
+ *
+ * ```tsx
+ * const list = { hidden: { opacity: 0 }, visible: { opacity: 1 } };
+ * const item = {
+ *   hidden: { opacity: 0, translateY: 20 },
+ *   visible: { opacity: 1, translateY: 0 },
+ * };
+ *
+ * <Animate animate={open ? "visible" : "hidden"} initial="hidden" variants={list}>
+ *   <ul>
+ *     <AnimateGroup stagger={50}>
+ *       {items.map(i => (
+ *         <Animate key={i.id} variants={item}>
+ *           <li>{i.label}</li>
+ *         </Animate>
+ *       ))}
+ *     </AnimateGroup>
+ *   </ul>
+ * </Animate>
+ * ```
+ *
+ * With `layout`, the changes of the layout of the child, e.g. when a
+ * list is reordered, are animated with its translate and scale springs
+ * (see `{@link useLayoutAnimation}`). Two components with the same
+ * `layoutId` animate from one to the other when one replaces the other.
+ *
+ * The attributes of SVG children, e.g. `cx`, `r`, `viewBox` or
+ * `points`, are animated as well, e.g. for a chart marker:
+ *
+ * ```tsx
+ * <Animate cx={index * 40} r={active ? 12 : 6}>
+ *   <circle cx={0} cy={20} r={6} />
+ * </Animate>
+ * ```
+ *
+ * The animations respect the reduced motion policy of the nearest
+ * `{@link MotionConfig}`.
+ *
  * @param props The Animate component props to use
  * @param props.children The children to animate
- * @param props.animate (Optional) Whether to animate the children
+ * @param props.animate (Optional) Whether to animate the children, or the name of the variant to animate to
+ * @param props.variants (Optional) The named sets of props to animate to
+ * @param props.initial (Optional) The props, or the name of the variant, to start from
  * @param props.tension (Optional) The tension to use for the spring
  * @param props.friction (Optional) The friction to use for the spring
- * @param props.delay (Optional) The delay to use for the spring
+ * @param props.config (Optional) The spring config to use, overriding the tension and friction
+ * @param props.colorSpace (Optional) The color space to interpolate the colors in
+ * @param props.delay (Optional) The delay to use for the spring, added to the delay of an AnimateGroup
  * @param props.displacementThreshold (Optional) The displacement threshold to use for the spring
  * @param props.speedThreshold (Optional) The speed threshold to use for the spring
  * @param props.clamp (Optional) Whether to clamp the spring
+ * @param props.decay (Optional) Whether the springs should glide from their velocity and come to a stop
+ * @param props.transformOrder (Optional) The order of the transform functions
+ * @param props.transformOrigin (Optional) The origin of the transform
+ * @param props.webAnimations (Optional) Whether to run transform and opacity animations with the Web Animations API
  * @param props.onStart (Optional) The callback to call when the animation starts
  * @param props.onEnd (Optional) The callback to call when the animation ends
+ * @param props.exit (Optional) The properties, or the name of the variant, to animate to when removed from an AnimatePresence
+ * @param props.layout (Optional) Whether to animate the changes of the layout of the child
+ * @param props.layoutId (Optional) The ID of a shared layout to animate from
  * @param props.[...rest] (Optional) The rest of the animation options
  * @param forwardedRef The forwarded ref to use
  * @category Component
@@ -61,15 +172,26 @@ import { isObjectType } from "../utils/isObject.ts";
 export const Animate = ensuredForwardRef(
   (
     {
-      animate = true,
+      animate,
+      variants,
+      initial,
       tension = 230,
       friction = 22,
+      config,
+      colorSpace = "srgb",
       delay = 0,
       displacementThreshold = 0.001,
       speedThreshold = 0.001,
       clamp = false,
+      decay = false,
+      transformOrder,
+      transformOrigin,
+      webAnimations = true,
       onStart,
       onEnd,
+      exit,
+      layout = false,
+      layoutId,
       children,
       ...props
     }: AnimateComponentProps,
@@ -77,41 +199,102 @@ export const Animate = ensuredForwardRef(
   ) => {
     const update = useUpdate();
 
-    const ref = useRef<HTMLElement>();
+    const ref = useRef<HTMLElement | SVGElement>();
     const animatingRef = useRef(false);
     const latestChildrenRef = useRef(children);
 
     latestChildrenRef.current = children;
 
-    const springs = useAnimation(ref, props, {
-      animate,
-      tension,
-      friction,
-      delay,
-      displacementThreshold,
-      speedThreshold,
-      clamp,
-      onStart: () => {
-        animatingRef.current = true;
-
-        // Trigger a re-render
-        if (isFunction(latestChildrenRef.current)) {
-          update();
-        }
+    const groupDelay = useContext(AnimateGroupContext)();
+    const animationDelay = delay + groupDelay;
 
-        onStart?.();
-      },
-      onEnd: () => {
-        animatingRef.current = false;
+    // The variants of the parent apply, unless the component sets its own
+    const parentVariants = useContext(VariantContext)();
+    const animateVariant =
+      typeof animate === "string" || animate === false
+        ? animate
+        : parentVariants?.animate ?? animate ?? true;
+    const initialVariant = initial ?? parentVariants?.initial;
+
+    const [isPresent, safeToRemove] = usePresence();
+    const isPresentRef = useLatest(isPresent);
+
+    const variantProps =
+      typeof animateVariant === "string" ? variants?.[animateVariant] : {};
+    const exitProps = typeof exit === "string" ? variants?.[exit] : exit;
+    const animatedProps = isPresent
+      ? { ...props, ...variantProps }
+      : { ...props, ...variantProps, ...exitProps };
+    const springs = useAnimation(
+      ref,
+      layout || !isUndefined(layoutId)
+        ? { ...identityLayoutTransform, ...animatedProps }
+        : animatedProps,
+      {
+        animate: animateVariant !== false,
+        variants,
+        initial: initialVariant,
+        tension,
+        friction,
+        config,
+        colorSpace,
+        delay: animationDelay,
+        displacementThreshold,
+        speedThreshold,
+        clamp,
+        decay,
+        transformOrder,
+        transformOrigin,
+        webAnimations,
+        onStart: () => {
+          animatingRef.current = true;
+
+          // Trigger a re-render
+          if (isFunction(latestChildrenRef.current)) {
+            update();
+          }
+
+          onStart?.();
+        },
+        onEnd: () => {
+          animatingRef.current = false;
 
-        // Trigger a re-render
-        if (isFunction(latestChildrenRef.current)) {
-          update();
+          // Trigger a re-render
+          if (isFunction(latestChildrenRef.current)) {
+            update();
+          }
+
+          onEnd?.();
+
+          if (!isPresentRef.current) {
+            safeToRemove();
+          }
+        },
+      }
+    );
+
+    useLayoutAnimation(ref, springs as LayoutSprings, { layout, layoutId });
+
+    // Unmount right away when there is nothing to animate out
+    useEffect(() => {
+      if (isPresent) {
+        return;
+      }
+
+      const removeIfAtRest = () => {
+        if (Object.values(springs).every(spring => spring.isAtRest())) {
+          safeToRemove();
         }
+      };
 
-        onEnd?.();
-      },
-    });
+      if (!animationDelay) {
+        removeIfAtRest();
+        return;
+      }
+
+      const timeout = setTimeout(removeIfAtRest, animationDelay);
+      return () => clearTimeout(timeout);
+    }, [isPresent, animationDelay, springs, safeToRemove]);
 
     /*
     biome-ignore lint/correctness/useExhaustiveDependencies:
@@ -148,15 +331,21 @@ export const Animate = ensuredForwardRef(
 
     const child = React.Children.only(children);
 
-    return cloneElement(child, {
-      ref: (element: HTMLElement | undefined) => {
+    const variantState = {
+      animate:
+        !isPresent && typeof exit === "string"
+          ? exit
+          : typeof animateVariant === "string"
+            ? animateVariant
+            : undefined,
+      initial: typeof initialVariant === "string" ? initialVariant : undefined,
+    };
+
+    const animatedChild = cloneElement(child, {
+      ref: (element: HTMLElement | SVGElement | undefined) => {
         ref.current = element;
 
-        if (
-          "ref" in child &&
-          isObjectType(child.ref) &&
-          "current" in child.ref
-        ) {
+        if ("ref" in child && isObject(child.ref) && "current" in child.ref) {
           child.ref.current = element;
           // @ts-expect-error: This is a hack to forward the ref to the caller
         } else if (isFunction(child.ref)) {
@@ -165,6 +354,12 @@ export const Animate = ensuredForwardRef(
         }
       },
     });
+
+    return (
+      <VariantContext.Provider value={() => variantState}>
+        {animatedChild}
+      </VariantContext.Provider>
+    );
   }
 );
 
@@ -0,0 +1,120 @@
+import React, { useContext } from "react";
+
+import type {
+  AnimateGroupContextData,
+  AnimateGroupProps,
+  StaggerDirection,
+} from "../types/components.ts";
+
+/**
+ * The default AnimateGroup context, for the elements
+ * outside of an `{@link AnimateGroup}`.
+ */
+export const defaultAnimateGroupContext: AnimateGroupContextData = () => 0;
+
+/**
+ * The AnimateGroup context.
+ *
+ * This context provides the delay that the
+ * `{@link AnimateGroup}` adds to the animations
+ * of a child.
+ *
+ * @example
+ * ```tsx
+ * const delay = useContext(AnimateGroupContext)()
+ * ```
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const AnimateGroupContext = React.createContext(
+  defaultAnimateGroupContext
+);
+
+/**
+ * Get the position of a child in the stagger order.
+ *
+ * @param index The index of the child
+ * @param count The number of children
+ * @param direction The direction to stagger the children in
+ * @returns The number of children animated before the child
+ */
+const getStaggerOrder = (
+  index: number,
+  count: number,
+  direction: StaggerDirection
+) => {
+  const center = (count - 1) / 2;
+
+  switch (direction) {
+    case "reverse":
+      return count - 1 - index;
+    case "center":
+      return Math.floor(Math.abs(index - center));
+    case "edges":
+      return Math.floor(center - Math.abs(index - center));
+    default:
+      return index;
+  }
+};
+
+/**
+ * The AnimateGroup component.
+ *
+ * This component staggers the animations of its
+ * children: each child `{@link Animate}` waits `stagger`
+ * milliseconds more than the child animated before it.
+ * The delay applies to every animation of the children,
+ * including the exit animations of an
+ * `{@link AnimatePresence}` within the group.
+ *
+ * @example
+ * ```tsx
+ * <AnimateGroup stagger={50} direction="reverse">
+ *   {items.map(item => (
+ *     <Animate key={item.id} opacity={visible ? 1 : 0}>
+ *       <li>{item.label}</li>
+ *     </Animate>
+ *   ))}
+ * </AnimateGroup>
+ * ```
+ *
+ * @param props The AnimateGroup component props to use
+ * @param props.stagger (Optional) The delay between two consecutive children, in milliseconds (Defaults to `50`)
+ * @param props.direction (Optional) The direction to stagger the children in (Defaults to `"forward"`)
+ * @param props.delay (Optional) The delay before the first child, in milliseconds (Defaults to `0`)
+ * @param props.children The children to stagger
+ * @returns The AnimateGroup component
+ *
+ * @category Component
+ * @since 0.0.1
+ */
+export const AnimateGroup = ({
+  stagger = 50,
+  direction = "forward",
+  delay = 0,
+  children,
+}: AnimateGroupProps) => {
+  const parentDelay = useContext(AnimateGroupContext)();
+  const elements = React.Children.toArray(children);
+
+  return (
+    <>
+      {elements.map((element, index) => {
+        const childDelay =
+          parentDelay +
+          delay +
+          stagger * getStaggerOrder(index, elements.length, direction);
+
+        return (
+          <AnimateGroupContext.Provider
+            key={React.isValidElement(element) ? element.key : index}
+            value={() => childDelay}
+          >
+            {element}
+          </AnimateGroupContext.Provider>
+        );
+      })}
+    </>
+  );
+};
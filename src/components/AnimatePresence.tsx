@@ -0,0 +1,165 @@
+import React, { useEffect, useRef } from "react";
+
+import { useUpdate } from "../hooks/animations/useUpdate.ts";
+import { useLatest } from "../hooks/states/useLatest.ts";
+import type {
+  AnimatePresenceProps,
+  PresenceContextData,
+} from "../types/components.ts";
+
+/**
+ * The default Presence context, for the elements
+ * outside of an `{@link AnimatePresence}`.
+ */
+export const defaultPresenceContext: PresenceContextData = () => null;
+
+/**
+ * The Presence context.
+ *
+ * This context tells the children of an
+ * `{@link AnimatePresence}` whether they are still
+ * present, and lets them signal when their exit
+ * animation is complete. See `{@link usePresence}`.
+ *
+ * @example
+ * ```tsx
+ * const presence = useContext(PresenceContext)()
+ * ```
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const PresenceContext = React.createContext(defaultPresenceContext);
+
+/**
+ * Get the keyed elements of the children.
+ *
+ * @param children The children to get the elements of
+ * @returns The elements of the children
+ */
+const getElements = (children: React.ReactNode) =>
+  React.Children.toArray(children).filter(React.isValidElement);
+
+/**
+ * The AnimatePresence component.
+ *
+ * This component keeps its removed children in the tree
+ * until they finish their exit animation. Each child
+ * `{@link Animate}` animates to its `exit` props when it is
+ * removed, and is unmounted when its springs come to rest.
+ * A child that is added back during its exit animates back
+ * to its props from where it is.
+ *
+ * The children are told apart by their `key`, so
+ * conditionally rendered children need a key too.
+ *
+ * @example
+ * ```tsx
+ * <AnimatePresence onExitComplete={() => console.log("Gone")}>
+ *   {items.map(item => (
+ *     <Animate key={item.id} opacity={1} exit={{ opacity: 0 }}>
+ *       <li>{item.label}</li>
+ *     </Animate>
+ *   ))}
+ * </AnimatePresence>
+ * ```
+ *
+ * @param props The AnimatePresence component props to use
+ * @param props.children The children to animate in and out
+ * @param props.onExitComplete (Optional) The callback to call when all the removed children are unmounted
+ * @returns The AnimatePresence component
+ *
+ * @category Component
+ * @since 0.0.1
+ */
+export const AnimatePresence = ({
+  children,
+  onExitComplete,
+}: AnimatePresenceProps) => {
+  const update = useUpdate();
+  const onExitCompleteRef = useLatest(onExitComplete);
+
+  const renderedRef = useRef<React.ReactElement[]>([]);
+  const presentKeysRef = useRef(new Set<React.Key | null>());
+  const registeredKeysRef = useRef(new Set<React.Key | null>());
+  const hasDroppedRef = useRef(false);
+
+  const presentElements = getElements(children);
+  const presentKeys = new Set(presentElements.map(element => element.key));
+  const rendered = [...presentElements];
+
+  // Keep the removed children where they were, after the child
+  // that came before them
+  renderedRef.current.forEach((element, i) => {
+    if (presentKeys.has(element.key)) {
+      return;
+    }
+
+    // The children that don't use their presence have no exit
+    // animation to wait for
+    if (!registeredKeysRef.current.has(element.key)) {
+      hasDroppedRef.current = true;
+      return;
+    }
+
+    const previousKey = renderedRef.current[i - 1]?.key;
+    const index = rendered.findIndex(e => e.key === previousKey);
+
+    rendered.splice(index + 1, 0, element);
+  });
+
+  renderedRef.current = rendered;
+  presentKeysRef.current = presentKeys;
+
+  const onChildExitComplete = (key: React.Key | null) => {
+    // The child was added back during its exit, or is already removed
+    if (
+      presentKeysRef.current.has(key) ||
+      !renderedRef.current.some(e => e.key === key)
+    ) {
+      return;
+    }
+
+    renderedRef.current = renderedRef.current.filter(e => e.key !== key);
+    registeredKeysRef.current.delete(key);
+
+    if (renderedRef.current.every(e => presentKeysRef.current.has(e.key))) {
+      onExitCompleteRef.current?.();
+    }
+
+    update();
+  };
+
+  // The children that were unmounted as soon as they were removed
+  // complete the exit too
+  useEffect(() => {
+    if (!hasDroppedRef.current) {
+      return;
+    }
+
+    hasDroppedRef.current = false;
+
+    if (renderedRef.current.every(e => presentKeysRef.current.has(e.key))) {
+      onExitCompleteRef.current?.();
+    }
+  });
+
+  return (
+    <>
+      {rendered.map(element => {
+        const isPresent = presentKeys.has(element.key);
+        const presence = {
+          isPresent,
+          onExitComplete: () => onChildExitComplete(element.key),
+          register: () => registeredKeysRef.current.add(element.key),
+        };
+
+        return (
+          <PresenceContext.Provider key={element.key} value={() => presence}>
+            {element}
+          </PresenceContext.Provider>
+        );
+      })}
+    </>
+  );
+};
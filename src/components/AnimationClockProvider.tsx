@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+
+import { useIsomorphicLayoutEffect } from "../hooks/lifecycles/useIsomorphicLayoutEffect.ts";
+import {
+  AnimationClock,
+  getAnimationClock,
+  setAnimationClock,
+} from "../logic/animationClock.ts";
+import type {
+  AnimationClockContextData,
+  AnimationClockProviderProps,
+} from "../types/components.ts";
+
+/**
+ * The default AnimationClock context.
+ */
+export const defaultAnimationClockContext: AnimationClockContextData = () =>
+  getAnimationClock();
+
+/**
+ * The AnimationClock context.
+ *
+ * This context provides access to the installed
+ * animation clock, or `null` when animations run
+ * in real time.
+ *
+ * @example
+ * ```tsx
+ * const clock = useContext(AnimationClockContext)()
+ * ```
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const AnimationClockContext = React.createContext(
+  defaultAnimationClockContext
+);
+
+/**
+ * Installs a clock while it is mounted, and restores the previously
+ * installed clock when it unmounts or when the clock changes.
+ *
+ * It is rendered before the children of the provider, so that its
+ * layout effect installs the clock before the layout effects of the
+ * children run.
+ *
+ * @param props The props of the installer
+ * @param props.clock The clock to install
+ * @returns Nothing
+ */
+const AnimationClockInstaller = ({ clock }: { clock: AnimationClock }) => {
+  useIsomorphicLayoutEffect(() => {
+    const previousClock = getAnimationClock();
+
+    setAnimationClock(clock);
+
+    return () => {
+      setAnimationClock(previousClock);
+    };
+  }, [clock]);
+
+  return null;
+};
+
+/**
+ * The AnimationClock provider.
+ *
+ * This provider installs a manual `{@link AnimationClock}`
+ * for every spring and `requestAnimationFrame` based hook
+ * (`useSpring`, `useAnimation`, `Animate`, `useRaf`,
+ * `useTween`, `useRafLoop`, ...). Frames only happen when
+ * the clock is advanced, which makes animations
+ * deterministic in tests.
+ *
+ * The clock is installed when the provider mounts, or when
+ * the `clock` prop changes, and the previously installed
+ * clock is restored when it unmounts. To install a clock outside of React, see
+ * `{@link setAnimationClock}`.
+ *
+ * @example
+ * ```tsx
+ * const clock = new AnimationClock();
+ *
+ * render(
+ *   <AnimationClockProvider clock={clock}>
+ *     <Animate opacity={1}>
+ *       <div />
+ *     </Animate>
+ *   </AnimationClockProvider>
+ * );
+ *
+ * act(() => {
+ *   clock.advance(100);
+ *   clock.runUntilIdle();
+ * });
+ * ```
+ *
+ * @param props The animation clock provider props to use
+ * @param props.clock (Optional) The clock to install
+ * @param props.children The children to render within the provider
+ * @returns The animation clock provider component
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const AnimationClockProvider = (props: AnimationClockProviderProps) => {
+  const { clock, children } = props;
+
+  const [defaultClock] = useState(() => new AnimationClock());
+  const animationClock = clock ?? defaultClock;
+
+  return (
+    <AnimationClockContext.Provider value={() => animationClock}>
+      <AnimationClockInstaller clock={animationClock} />
+      {children}
+    </AnimationClockContext.Provider>
+  );
+};
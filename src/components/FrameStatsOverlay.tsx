@@ -0,0 +1,96 @@
+import React from "react";
+
+import { useFrameStats } from "../hooks/sensors/useFrameStats.ts";
+import { FrameStatsTracker } from "../logic/frameStats.ts";
+import type { FrameStatsOverlayProps } from "../types/components.ts";
+
+/**
+ * Format a time in milliseconds for the overlay.
+ *
+ * @param time The time, in milliseconds
+ * @returns The formatted time
+ */
+const formatTime = (time: number): string => `${time.toFixed(1)}ms`;
+
+/**
+ * The FrameStatsOverlay component.
+ *
+ * This component shows the statistics of `{@link useFrameStats}` in a
+ * corner of the viewport: the frames per second, colored by how close
+ * they are to the target frame rate, the average and percentile frame
+ * times, and the number of dropped and long frames.
+ *
+ * The overlay is meant for development builds, e.g. to check on a
+ * low-end device that an animated screen holds 60 frames per second.
+ * It renders nothing, and measures nothing, in production builds.
+ *
+ * @example
+ * ```tsx
+ * const App = () => (
+ *   <>
+ *     <Screen />
+ *     <FrameStatsOverlay position="bottom-left" longFrameThreshold={34} />
+ *   </>
+ * );
+ * ```
+ *
+ * @param props The frame stats overlay props to use
+ * @param props.position (Optional) The corner of the viewport to show the overlay in (Defaults to `"top-right"`)
+ * @param props.enabled (Optional) Whether the frames are measured (Defaults to `true`)
+ * @param props.updateInterval (Optional) The time between two updates of the statistics, in milliseconds (Defaults to `500`)
+ * @param props.sampleSize (Optional) The number of recent frames to compute the frame rate and the percentiles over (Defaults to `120`)
+ * @param props.targetFps (Optional) The frame rate to count the dropped frames against (Defaults to `60`)
+ * @param props.longFrameThreshold (Optional) The time between two frames, in milliseconds, above which a frame is a long frame (Defaults to `50`)
+ * @returns The frame stats overlay component
+ *
+ * @category Component
+ * @since 0.0.1
+ */
+export const FrameStatsOverlay =
+  process.env.NODE_ENV !== "production"
+    ? (props: FrameStatsOverlayProps) => {
+        const { position = "top-right", ...options } = props;
+        const { targetFps = FrameStatsTracker.DEFAULT_TARGET_FPS } = options;
+
+        const stats = useFrameStats(options);
+
+        const [vertical, horizontal] = position.split("-") as [
+          "top" | "bottom",
+          "left" | "right",
+        ];
+        const fpsColor =
+          stats.fps >= targetFps * 0.95
+            ? "#4ade80"
+            : stats.fps >= targetFps * 0.75
+              ? "#facc15"
+              : "#f87171";
+
+        return (
+          <div
+            role="status"
+            aria-label="Frame stats"
+            style={{
+              position: "fixed",
+              [vertical]: 8,
+              [horizontal]: 8,
+              zIndex: 2147483647,
+              padding: "4px 8px",
+              borderRadius: 4,
+              background: "rgba(0, 0, 0, 0.75)",
+              color: "#fff",
+              font: "11px/1.5 monospace",
+              pointerEvents: "none",
+            }}
+          >
+            <div style={{ color: fpsColor }}>{stats.fps.toFixed(0)} fps</div>
+            <div>
+              avg {formatTime(stats.averageFrameTime)} · p95{" "}
+              {formatTime(stats.p95)} · p99 {formatTime(stats.p99)}
+            </div>
+            <div>
+              dropped {stats.droppedFrames} · long {stats.longFrames}
+            </div>
+          </div>
+        );
+      }
+    : (): null => null;
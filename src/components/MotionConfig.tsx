@@ -0,0 +1,94 @@
+import React, { useContext, useMemo } from "react";
+
+import type {
+  MotionConfigContextData,
+  MotionConfigProps,
+} from "../types/components.ts";
+
+/**
+ * The default MotionConfig context.
+ */
+export const defaultMotionConfigContext: MotionConfigContextData = () => ({
+  reducedMotion: "user",
+  animateOpacity: false,
+});
+
+/**
+ * The MotionConfig context.
+ *
+ * This context provides access to the motion config
+ * of the animation hooks.
+ *
+ * @example
+ * ```tsx
+ * const { reducedMotion } = useContext(MotionConfigContext)()
+ * ```
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const MotionConfigContext = React.createContext(
+  defaultMotionConfigContext
+);
+
+/**
+ * The MotionConfig component.
+ *
+ * This component sets how the animation hooks within it
+ * (`useAnimation`, `Animate`, `useAnimationSequence`,
+ * `useSpring`, `useTween` and `useRaf`) respect the reduced
+ * motion preference of the user. When the motion is reduced,
+ * the springs jump to their end values, or only the opacity
+ * animates, and the tweens jump to their end. The `onStart`
+ * and `onEnd` callbacks are still called.
+ *
+ * The `reducedMotion` policy is one of:
+ * - `user` - Reduce the motion when the user prefers reduced motion (default)
+ * - `always` - Always reduce the motion
+ * - `never` - Never reduce the motion
+ *
+ * The options that are omitted are inherited from the
+ * parent MotionConfig. See `{@link useReducedMotion}` to
+ * read the policy in custom animations.
+ *
+ * @example
+ * ```tsx
+ * <MotionConfig reducedMotion="user" animateOpacity>
+ *   <Animate opacity={1} translateY={open ? 0 : 20}>
+ *     <div />
+ *   </Animate>
+ * </MotionConfig>
+ * ```
+ *
+ * @param props The motion config props to use
+ * @param props.reducedMotion (Optional) The reduced motion policy
+ * @param props.animateOpacity (Optional) Whether the opacity keeps animating when the motion is reduced
+ * @param props.children The children to render within the config
+ * @returns The motion config component
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const MotionConfig = (props: MotionConfigProps) => {
+  const { reducedMotion, animateOpacity, children } = props;
+
+  const parentConfig = useContext(MotionConfigContext)();
+  const config = useMemo(
+    () => ({
+      reducedMotion: reducedMotion ?? parentConfig.reducedMotion,
+      animateOpacity: animateOpacity ?? parentConfig.animateOpacity,
+    }),
+    [
+      reducedMotion,
+      animateOpacity,
+      parentConfig.reducedMotion,
+      parentConfig.animateOpacity,
+    ]
+  );
+
+  return (
+    <MotionConfigContext.Provider value={() => config}>
+      {children}
+    </MotionConfigContext.Provider>
+  );
+};
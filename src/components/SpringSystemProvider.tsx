@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+
+import { getGlobalSpringSystem, SpringSystem } from "../logic/springs.ts";
+import type {
+  SpringSystemContextData,
+  SpringSystemProviderProps,
+} from "../types/components.ts";
+
+/**
+ * The default SpringSystem context.
+ */
+export const defaultSpringSystemContext: SpringSystemContextData = () =>
+  getGlobalSpringSystem();
+
+/**
+ * The SpringSystem context.
+ *
+ * This context provides access to the spring system
+ * shared by the animation hooks.
+ *
+ * @example
+ * ```tsx
+ * const springSystem = useContext(SpringSystemContext)()
+ * ```
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const SpringSystemContext = React.createContext(
+  defaultSpringSystemContext
+);
+
+/**
+ * The SpringSystem provider.
+ *
+ * This provider shares a single `{@link SpringSystem}`
+ * between the `useSpring`, `useAnimation` and `Animate`
+ * calls within it. All their springs are advanced in one
+ * pass per frame, and the styles of the animated elements
+ * are written in one batch after that pass (see
+ * `{@link StyleBatch}`). Outside of a provider, the hooks
+ * share the global spring system.
+ *
+ * @example
+ * ```tsx
+ * const springSystem = new SpringSystem();
+ *
+ * springSystem.addListener({
+ *   onAfterIntegrate: system => {
+ *     console.log(system.getActiveSpringCount());
+ *   },
+ * });
+ *
+ * <SpringSystemProvider springSystem={springSystem}>
+ *   {rows.map(row => (
+ *     <Animate key={row.id} translateY={row.y}>
+ *       <Row row={row} />
+ *     </Animate>
+ *   ))}
+ * </SpringSystemProvider>
+ * ```
+ *
+ * @param props The spring system provider props to use
+ * @param props.springSystem (Optional) The spring system to share
+ * @param props.children The children to render within the provider
+ * @returns The spring system provider component
+ *
+ * @category Context
+ * @since 0.0.1
+ */
+export const SpringSystemProvider = (props: SpringSystemProviderProps) => {
+  const { springSystem, children } = props;
+
+  const [ownSpringSystem] = useState(() => new SpringSystem());
+  const sharedSpringSystem = springSystem ?? ownSpringSystem;
+
+  return (
+    <SpringSystemContext.Provider value={() => sharedSpringSystem}>
+      {children}
+    </SpringSystemContext.Provider>
+  );
+};
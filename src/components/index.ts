@@ -1,2 +1,8 @@
 export * from "./Animate.tsx";
+export * from "./AnimateGroup.tsx";
+export * from "./AnimatePresence.tsx";
+export * from "./AnimationClockProvider.tsx";
+export * from "./FrameStatsOverlay.tsx";
 export * from "./Keystrokes.tsx";
+export * from "./MotionConfig.tsx";
+export * from "./SpringSystemProvider.tsx";
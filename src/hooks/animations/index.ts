@@ -1,9 +1,19 @@
+export * from "./useAnimatedStyle.ts";
+export * from "./useAnimatedText.ts";
 export * from "./useAnimation.ts";
+export * from "./useAnimationSequence.ts";
+export * from "./useDrag.ts";
 export * from "./useHarmonicInterval.ts";
 export * from "./useInterval.ts";
+export * from "./useLayoutAnimation.ts";
+export * from "./usePresence.ts";
 export * from "./useRaf.ts";
+export * from "./useReducedMotion.ts";
+export * from "./useSmoothScroll.ts";
 export * from "./useSpring.ts";
+export * from "./useSpringValue.ts";
 export * from "./useTimeout.ts";
 export * from "./useTimeoutFn.ts";
 export * from "./useTween.ts";
+export * from "./useTweenController.ts";
 export * from "./useUpdate.ts";
@@ -0,0 +1,100 @@
+import { useContext, useMemo } from "react";
+
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import { AnimatedValue } from "../../logic/animatedValue.ts";
+import { toStyle } from "../../logic/animation.ts";
+import { getStyleBatch } from "../../logic/styleBatch.ts";
+import type { AnimatedStyle } from "../../types/animations.ts";
+import type {
+  AnimatableProps,
+  StyleBatchUpdate,
+  TransformOptions,
+} from "../../types/logic.ts";
+import { useEffectOnce } from "../lifecycles/useEffectOnce.ts";
+import { useIsomorphicLayoutEffect } from "../lifecycles/useIsomorphicLayoutEffect.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+/**
+ * React animation hook that binds animated values to the style of an
+ * element, without re-rendering the component when they change.
+ *
+ * The properties are the ones of `{@link useAnimation}`, given as
+ * `{@link AnimatedValue}`s (e.g. from `{@link useSpringValue}`) or as
+ * static values. The style is written in the batch of the spring
+ * system of the nearest `{@link SpringSystemProvider}`. The bound
+ * properties should not be set with the `style` prop of the element.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null);
+ * const progress = useSpringValue(open ? 1 : 0, "gentle");
+ *
+ * useAnimatedStyle(ref, {
+ *   opacity: progress,
+ *   translateY: progress.interpolate([0, 1], [20, 0]),
+ *   backgroundColor: progress.interpolate([0, 1], ["#eeeeee", "#3366ff"]),
+ * });
+ *
+ * return <div ref={ref}>I don't re-render</div>;
+ * ```
+ *
+ * @param ref The reference to the element to style
+ * @param style The properties to bind to the style of the element
+ * @param options (Optional) The options of the transform
+ * @param options.transformOrder (Optional) The order of the transform functions
+ * @param options.transformOrigin (Optional) The origin of the transform
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useAnimatedStyle = (
+  ref: React.RefObject<HTMLElement | SVGElement | null | undefined>,
+  style: AnimatedStyle,
+  options: TransformOptions = {}
+): void => {
+  const springSystem = useContext(SpringSystemContext)();
+  const styleBatch = getStyleBatch(springSystem);
+
+  const styleRef = useLatest(style);
+  const optionsRef = useLatest(options);
+
+  const styleUpdate = useMemo<StyleBatchUpdate>(
+    () => ({
+      getElement: () => ref.current,
+      getStyle: () => {
+        const props: Record<string, unknown> = {};
+
+        for (const prop in styleRef.current) {
+          const value = styleRef.current[prop as keyof AnimatableProps];
+
+          props[prop] = value instanceof AnimatedValue ? value.get() : value;
+        }
+
+        return toStyle(props as Partial<AnimatableProps>, optionsRef.current);
+      },
+    }),
+    [ref, styleRef, optionsRef]
+  );
+
+  // The values are subscribed to again on each render, as the bound
+  // properties may change; the style is written before the paint
+  useIsomorphicLayoutEffect(() => {
+    const schedule = () => styleBatch.schedule(styleUpdate);
+    const unsubscribes = Object.values(styleRef.current)
+      .filter(value => value instanceof AnimatedValue)
+      .map(value => (value as AnimatedValue<unknown>).subscribe(schedule));
+
+    schedule();
+    styleBatch.flush();
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  });
+
+  useEffectOnce(() => {
+    return () => {
+      styleBatch.unschedule(styleUpdate);
+    };
+  });
+};
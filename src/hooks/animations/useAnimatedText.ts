@@ -0,0 +1,45 @@
+import type { AnimatedValue } from "../../logic/animatedValue.ts";
+import { useIsomorphicLayoutEffect } from "../lifecycles/useIsomorphicLayoutEffect.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+/**
+ * React animation hook that binds an animated value to the text
+ * content of an element, without re-rendering the component when the
+ * value changes. The element should not render children of its own.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLSpanElement>(null);
+ * const count = useSpringValue(total, "slow");
+ *
+ * useAnimatedText(ref, count, v => Math.round(v).toLocaleString());
+ *
+ * return <span ref={ref} />;
+ * ```
+ *
+ * @param ref The reference to the element to write the text to
+ * @param value The animated value to bind
+ * @param format (Optional) Format the value as text (Defaults to `String`)
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useAnimatedText = <T>(
+  ref: React.RefObject<HTMLElement | SVGElement | null | undefined>,
+  value: AnimatedValue<T>,
+  format: (value: T) => string = String
+): void => {
+  const formatRef = useLatest(format);
+
+  useIsomorphicLayoutEffect(() => {
+    const write = (current: T) => {
+      if (ref.current) {
+        ref.current.textContent = formatRef.current(current);
+      }
+    };
+
+    write(value.get());
+
+    return value.subscribe(write);
+  }, [ref, value, formatRef]);
+};
@@ -1,53 +1,39 @@
-import { useCallback, useEffect, useRef } from "react";
+import { useCallback, useContext, useEffect, useMemo, useRef } from "react";
 
-import { toStyle } from "../../logic/animation.ts";
+import { MotionConfigContext } from "../../components/MotionConfig.tsx";
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
 import {
-  MultiSpring,
-  Spring,
-  SpringConfig,
-  SpringSystem,
-} from "../../logic/springs.ts";
+  convertLength,
+  convertLengthSpring,
+  createAnimatableSpring,
+  isLengthProperty,
+  parseAnimatableValue,
+  parseUnitValue,
+  svgAttributes,
+  toStyle,
+  toSVGAttributes,
+} from "../../logic/animation.ts";
+import { Spring, SpringConfig } from "../../logic/springs.ts";
+import { getStyleBatch } from "../../logic/styleBatch.ts";
+import {
+  canUseWebAnimations,
+  SpringWebAnimation,
+} from "../../logic/webAnimation.ts";
 import type {
-  SpringForAnimatableProp,
   UseAnimationOptions,
   UseAnimationReturn,
 } from "../../types/animations.ts";
-import type { AnimatableProps } from "../../types/logic.ts";
+import type {
+  AnimatableLength,
+  AnimatableProps,
+  CSSUnit,
+  StyleBatchUpdate,
+} from "../../types/logic.ts";
+import { deepEqual } from "../../utils/deepEqual.ts";
 import { useEffectOnce } from "../lifecycles/useEffectOnce.ts";
 import { useLatest } from "../states/useLatest.ts";
 
-/**
- * The spring system to use.
- */
-const springSystem = new SpringSystem();
-
-/**
- * Creates a spring for an animatable property.
- *
- * @param startValue The start value of the spring.
- * @param tension The tension of the spring.
- * @param friction The friction of the spring.
- * @returns The spring for the property.
- */
-const createSpring = <Prop extends keyof AnimatableProps>(
-  startValue: AnimatableProps[Prop],
-  tension: number,
-  friction: number
-): SpringForAnimatableProp<Prop> => {
-  let spring: MultiSpring<number[]> | Spring;
-
-  if (Array.isArray(startValue)) {
-    spring = new MultiSpring(springSystem, new SpringConfig(tension, friction));
-    spring.setCurrentValue(startValue);
-  } else {
-    spring = springSystem.createSpringWithConfig(
-      new SpringConfig(tension, friction)
-    );
-    spring.setCurrentValue(startValue);
-  }
-
-  return spring as SpringForAnimatableProp<Prop>;
-};
+import { useReducedMotion } from "./useReducedMotion.ts";
 
 /**
  * The default options for the animation.
@@ -65,6 +51,19 @@ const defaultOptions: UseAnimationOptions = {
 /**
  * React animation hook that animates the properties of an element.
  *
+ * The springs run in the spring system shared by the nearest
+ * `{@link SpringSystemProvider}`, and the styles of all the elements
+ * animated in that system are written in one batch per frame.
+ *
+ * The SVG attributes, e.g. `cx`, `r`, `viewBox` or `points`, are set
+ * with `setAttribute` when the element is an SVG element (see
+ * `{@link toSVGAttributes}`).
+ *
+ * When the motion is reduced (see `{@link MotionConfig}`), the springs
+ * jump to their end values, except for the opacity if the MotionConfig
+ * keeps animating it. The `onStart` and `onEnd` callbacks are still
+ * called.
+ *
  * @example
  * ```tsx
  * const ref = useRef<HTMLDivElement>(null);
@@ -90,36 +89,65 @@ const defaultOptions: UseAnimationOptions = {
  * @param ref The reference to the element to animate.
  * @param props The properties to animate.
  * @param options (Optional) The options for the animation.
- * @param options.animate (Optional) Whether to animate the properties.
+ * @param options.animate (Optional) Whether to animate the properties, or the name of the variant to animate to.
+ * @param options.variants (Optional) The named sets of properties to animate to.
+ * @param options.initial (Optional) The properties, or the name of the variant, to start from.
  * @param options.tension (Optional) The tension of the spring.
  * @param options.friction (Optional) The friction of the spring.
+ * @param options.config (Optional) The config of the spring, overriding the tension and friction.
+ * @param options.colorSpace (Optional) The color space to interpolate the color properties in.
  * @param options.delay (Optional) The delay of the animation.
  * @param options.displacementThreshold (Optional) The displacement threshold of the spring.
  * @param options.speedThreshold (Optional) The speed threshold of the spring.
  * @param options.clamp (Optional) Whether to clamp the spring.
+ * @param options.decay (Optional) Whether the springs should glide from their velocity and come to a stop.
+ * @param options.transformOrder (Optional) The order of the transform functions.
+ * @param options.transformOrigin (Optional) The origin of the transform.
+ * @param options.webAnimations (Optional) Whether to run transform and opacity animations with the Web Animations API.
  * @param options.onStart (Optional) The callback to call when the animation starts.
  * @param options.onEnd (Optional) The callback to call when the animation ends.
  * @returns An object with the springs as values for the `props` keys.
  */
 export const useAnimation = <TProps extends keyof Partial<AnimatableProps>>(
-  ref: React.RefObject<HTMLElement | null | undefined>,
+  ref: React.RefObject<HTMLElement | SVGElement | null | undefined>,
   props: { [Prop in TProps]?: AnimatableProps[Prop] },
   options: UseAnimationOptions = defaultOptions
 ): UseAnimationReturn<TProps> => {
   const {
     animate = true,
+    variants,
+    initial,
     tension = 230,
     friction = 22,
+    config,
+    colorSpace = "srgb",
     delay = 0,
     displacementThreshold = 0.001,
     speedThreshold = 0.001,
     clamp = false,
+    decay = false,
+    transformOrder,
+    transformOrigin,
+    webAnimations = true,
     onEnd,
     onStart,
   } = options;
 
+  const variant = typeof animate === "string" ? variants?.[animate] : undefined;
+  const targetProps = (
+    variant ? { ...props, ...variant } : props
+  ) as typeof props;
+  const initialProps =
+    typeof initial === "string" ? variants?.[initial] : initial;
+
+  const springSystem = useContext(SpringSystemContext)();
+  const { animateOpacity } = useContext(MotionConfigContext)();
+  const reduceMotion = useReducedMotion();
   const springsRef = useRef({} as UseAnimationReturn<TProps>);
+  const valuesRef = useRef<{ [Prop in TProps]?: AnimatableProps[Prop] }>({});
+  const unitsRef = useRef<{ [Prop in TProps]?: CSSUnit }>({});
   const animatingRef = useRef(0);
+  const timeoutsRef = useRef(new Set<ReturnType<typeof setTimeout>>());
 
   const onStartRef = useLatest(onStart);
   const onSpringActivate = useCallback(() => {
@@ -137,53 +165,171 @@ export const useAnimation = <TProps extends keyof Partial<AnimatableProps>>(
     }
   }, [onEndRef]);
 
-  const requestRef = useRef<number | null>(null);
-  const onSpringUpdate = useCallback(() => {
-    const performUpdate = () => {
-      if (!ref.current) {
-        return;
-      }
+  const transformOptionsRef = useLatest({ transformOrder, transformOrigin });
 
-      requestRef.current = null;
+  const formatStyle = useCallback(
+    (values: { [Prop in TProps]?: unknown }) => {
+      const style: { [Prop in TProps]?: AnimatableProps[Prop] } = {};
 
-      const currentValues: { [Prop in TProps]?: AnimatableProps[Prop] } = {};
+      for (const prop in values) {
+        const value = values[prop];
+        const unit = unitsRef.current[prop];
 
-      for (const prop in springsRef.current) {
-        currentValues[prop] = springsRef.current[
-          prop
-        ].getCurrentValue() as AnimatableProps[Extract<TProps, string>];
+        style[prop] = (
+          unit ? { value, unit } : value
+        ) as AnimatableProps[Extract<TProps, string>];
       }
 
-      const style = toStyle(currentValues);
+      return toStyle(style, transformOptionsRef.current);
+    },
+    [transformOptionsRef]
+  );
+
+  const styleBatch = getStyleBatch(springSystem);
+  const styleUpdate = useMemo<StyleBatchUpdate>(
+    () => ({
+      getElement: () => ref.current,
+      getStyle: () => {
+        const currentValues: { [Prop in TProps]?: unknown } = {};
 
-      for (const p in style) {
-        const prop = p as keyof React.CSSProperties;
+        for (const prop in springsRef.current) {
+          currentValues[prop] = springsRef.current[prop].getCurrentValue();
+        }
 
-        // @ts-expect-error: `style` is a CSSStyleDeclaration
-        ref.current.style[
-          prop as Exclude<keyof CSSStyleDeclaration, "length" | "parentRule">
-        ] = style[prop];
+        return formatStyle(currentValues);
+      },
+      getAttributes: () => {
+        const currentValues: { [Prop in TProps]?: unknown } = {};
+
+        if (!(ref.current instanceof SVGElement)) {
+          return {};
+        }
+
+        for (const prop in springsRef.current) {
+          if (prop in svgAttributes) {
+            currentValues[prop] = springsRef.current[prop].getCurrentValue();
+          }
+        }
+
+        return toSVGAttributes(currentValues as Partial<AnimatableProps>);
+      },
+    }),
+    [ref, formatStyle]
+  );
+
+  const webAnimationRef = useRef<SpringWebAnimation | null>(null);
+  const onSpringUpdate = useCallback(
+    (spring: Spring) => {
+      const element = ref.current;
+      let webAnimation = webAnimationRef.current;
+
+      if (!webAnimations || !canUseWebAnimations(element, springsRef.current)) {
+        webAnimation?.cancel();
+        styleBatch.schedule(styleUpdate);
+        return;
       }
-    };
 
-    if (!requestRef.current) {
-      requestAnimationFrame(performUpdate);
-    }
-  }, [ref]);
+      if (webAnimation?.getElement() !== element) {
+        webAnimation?.cancel();
+        webAnimation = webAnimationRef.current = new SpringWebAnimation(
+          element,
+          () => springsRef.current as Record<string, Spring>,
+          values => formatStyle(values) as Keyframe
+        );
+      }
+
+      const wasRunning = webAnimation.isRunning();
+
+      if (!webAnimation.update(spring)) {
+        styleBatch.schedule(styleUpdate);
+
+        // Write the end values before the web animation stops showing them
+        if (wasRunning) {
+          styleBatch.flush();
+        }
+      }
+    },
+    [ref, webAnimations, styleBatch, styleUpdate, formatStyle]
+  );
 
   useEffect(() => {
-    for (const prop in props) {
-      const value = props[prop];
-      if (value === undefined) {
+    const jumps: (() => void)[] = [];
+    let animating = false;
+
+    for (const prop in targetProps) {
+      if (targetProps[prop] === undefined) {
         continue;
       }
 
+      let value = parseAnimatableValue(
+        prop,
+        targetProps[prop] as AnimatableProps[Extract<TProps, string>]
+      );
+
       let spring = springsRef.current[prop];
+      let previousValue = valuesRef.current[prop];
+      const isLength = isLengthProperty(prop, value);
+
+      // The springs of lengths animate the number, in the unit of the
+      // latest value. When the unit changes, the spring is converted
+      // to the new unit first, as measured on the element.
+      if (isLength) {
+        const { value: n, unit } = parseUnitValue(
+          value as AnimatableLength,
+          prop,
+          ref.current
+        );
+        const currentUnit = unitsRef.current[prop];
+
+        if (
+          spring &&
+          currentUnit &&
+          currentUnit !== unit &&
+          !convertLengthSpring(
+            spring as Spring,
+            currentUnit,
+            unit,
+            prop,
+            ref.current
+          )
+        ) {
+          (spring as Spring).setCurrentValue(n);
+        }
+
+        unitsRef.current[prop] = unit;
+        value = n as AnimatableProps[Extract<TProps, string>];
+      }
+
       if (!spring) {
-        spring = springsRef.current[prop] = createSpring(
-          value,
-          tension,
-          friction
+        let startValue = value;
+        const initialValue = initialProps?.[prop];
+
+        // New springs start from their initial value, in the unit of
+        // their value
+        if (initialValue !== undefined) {
+          startValue = parseAnimatableValue(prop, initialValue as typeof value);
+
+          if (isLength) {
+            startValue = (convertLength(
+              startValue as AnimatableLength,
+              unitsRef.current[prop] as CSSUnit,
+              prop,
+              ref.current
+            ) ?? value) as typeof value;
+          }
+        }
+
+        previousValue = startValue;
+
+        spring = springsRef.current[prop] = createAnimatableSpring(
+          springSystem,
+          prop,
+          startValue,
+          config
+            ? SpringConfig.from(config)
+            : new SpringConfig(tension, friction),
+          colorSpace,
+          decay === true ? {} : decay || undefined
         );
 
         spring.setRestSpeedThreshold(speedThreshold);
@@ -196,31 +342,79 @@ export const useAnimation = <TProps extends keyof Partial<AnimatableProps>>(
         });
       }
 
+      // Gliding springs keep the value they came to a stop at,
+      // until the property itself changes.
+      if (decay && deepEqual(valuesRef.current[prop], value)) {
+        continue;
+      }
+
+      valuesRef.current[prop] = value;
+
       if (!animate) {
-        spring.setCurrentValue(
-          value as number & AnimatableProps[Extract<TProps, string>]
-        );
+        spring.setCurrentValue(value as never);
         continue;
       }
 
+      const changed = !deepEqual(previousValue, value);
+
+      if (reduceMotion && !(animateOpacity && prop === "opacity")) {
+        if (changed) {
+          const jumpingSpring = spring;
+          jumps.push(() => jumpingSpring.setCurrentValue(value as never));
+        }
+
+        continue;
+      }
+
+      animating ||= changed;
+
       if (delay) {
-        setTimeout(
-          () =>
-            spring.setEndValue(
-              value as number & AnimatableProps[Extract<TProps, string>]
-            ),
-          delay
-        );
+        const timeout = setTimeout(() => {
+          timeoutsRef.current.delete(timeout);
+          spring.setEndValue(value as never);
+        }, delay);
+        timeoutsRef.current.add(timeout);
       } else {
-        spring.setEndValue(
-          value as number & AnimatableProps[Extract<TProps, string>]
-        );
+        spring.setEndValue(value as never);
+      }
+    }
+
+    if (jumps.length > 0) {
+      // The springs that jump start and end the animation at once,
+      // unless other springs animate it
+      const jump = () => {
+        if (!animating) {
+          onSpringActivate();
+        }
+
+        jumps.forEach(jumpSpring => jumpSpring());
+
+        if (!animating) {
+          onSpringAtRest();
+        }
+      };
+
+      if (delay) {
+        const timeout = setTimeout(() => {
+          timeoutsRef.current.delete(timeout);
+          jump();
+        }, delay);
+        timeoutsRef.current.add(timeout);
+      } else {
+        jump();
       }
     }
   });
 
   useEffectOnce(() => {
     return () => {
+      styleBatch.unschedule(styleUpdate);
+      webAnimationRef.current?.cancel();
+
+      // The delayed animations would start on destroyed springs
+      timeoutsRef.current.forEach(timeout => clearTimeout(timeout));
+      timeoutsRef.current.clear();
+
       for (const prop in springsRef.current) {
         springsRef.current[prop].setAtRest();
         springsRef.current[prop].destroy();
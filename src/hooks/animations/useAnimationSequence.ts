@@ -0,0 +1,500 @@
+import { useCallback, useContext, useEffect, useRef } from "react";
+
+import { MotionConfigContext } from "../../components/MotionConfig.tsx";
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import {
+  colorProperties,
+  convertLength,
+  convertLengthSpring,
+  createAnimatableSpring,
+  isCustomProperty,
+  isLengthProperty,
+  numericalProperties,
+  parseAnimatableValue,
+  parseUnitValue,
+  svgAttributes,
+  toStyle,
+  toSVGAttributes,
+} from "../../logic/animation.ts";
+import {
+  cancelFrame,
+  getFrameTime,
+  requestFrame,
+} from "../../logic/animationClock.ts";
+import type { Spring } from "../../logic/springs.ts";
+import { hexToRGB, SpringConfig } from "../../logic/springs.ts";
+import { getStyleBatch } from "../../logic/styleBatch.ts";
+import type {
+  AnimatableSpring,
+  AnimationSequenceStep,
+  AnimationSequenceTarget,
+  AnimationStepOptions,
+  UseAnimationSequenceReturn,
+} from "../../types/animations.ts";
+import type {
+  AnimatableLength,
+  AnimatableProps,
+  SpringListener,
+} from "../../types/logic.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
+
+/**
+ * The values of the properties that can't be read from the computed
+ * style of an element, e.g. the transform functions and the filters.
+ */
+const initialValues: Partial<AnimatableProps> = {
+  translateX: 0,
+  translateY: 0,
+  translateZ: 0,
+  scaleX: 1,
+  scaleY: 1,
+  scaleZ: 1,
+  rotateX: 0,
+  rotateY: 0,
+  rotateZ: 0,
+  skewX: 0,
+  skewY: 0,
+  blur: 0,
+  brightness: 1,
+  contrast: 1,
+  grayscale: 0,
+  hueRotate: 0,
+  invert: 0,
+  saturate: 1,
+  sepia: 0,
+};
+
+/**
+ * The longhands of the shorthand properties, whose computed values
+ * can hold a value per side, e.g. `"10px 0px"`.
+ */
+const longhandProperties: { [prop: string]: string[] } = {
+  background: ["backgroundColor"],
+  borderColor: [
+    "borderTopColor",
+    "borderRightColor",
+    "borderBottomColor",
+    "borderLeftColor",
+  ],
+  borderRadius: [
+    "borderTopLeftRadius",
+    "borderTopRightRadius",
+    "borderBottomRightRadius",
+    "borderBottomLeftRadius",
+  ],
+  borderWidth: [
+    "borderTopWidth",
+    "borderRightWidth",
+    "borderBottomWidth",
+    "borderLeftWidth",
+  ],
+  margin: ["marginTop", "marginRight", "marginBottom", "marginLeft"],
+  padding: ["paddingTop", "paddingRight", "paddingBottom", "paddingLeft"],
+};
+
+/**
+ * Get the value an element starts an animation of a property from.
+ * Values that can't be animated from, e.g. `"normal"` or a shorthand
+ * with a different value per side, are unknown.
+ *
+ * @param element The animated element
+ * @param prop The animated property
+ * @returns The initial value of the property, or `undefined` if it is unknown
+ */
+const getInitialValue = <Prop extends keyof AnimatableProps>(
+  element: HTMLElement | SVGElement,
+  prop: Prop
+): AnimatableProps[Prop] | undefined => {
+  if (prop in initialValues) {
+    return initialValues[prop];
+  }
+
+  if (prop in svgAttributes) {
+    const value = element.getAttribute(prop);
+
+    return value === null
+      ? undefined
+      : parseAnimatableValue(prop, value as AnimatableProps[Prop]);
+  }
+
+  if (!isCustomProperty(prop) && !(prop in numericalProperties)) {
+    return undefined;
+  }
+
+  const style = getComputedStyle(element);
+  let value: string | undefined;
+
+  if (isCustomProperty(prop)) {
+    value = style.getPropertyValue(prop).trim();
+  } else {
+    const values = (longhandProperties[prop] ?? [prop]).map(
+      longhand => style[longhand as keyof CSSStyleDeclaration] as string
+    );
+
+    // A shorthand is only known when all its sides are the same
+    value = values.every(v => v === values[0]) ? values[0] : undefined;
+  }
+
+  if (!value || value === "none" || value === "auto" || value === "normal") {
+    return undefined;
+  }
+
+  // Check that the value parses, so that it doesn't throw from the
+  // springs or the unit conversion
+  try {
+    if (isLengthProperty(prop, value)) {
+      parseUnitValue(value);
+    } else if (
+      (prop in colorProperties || isCustomProperty(prop)) &&
+      isNaN(Number(value))
+    ) {
+      hexToRGB(value);
+    }
+
+    return parseAnimatableValue(prop, value as AnimatableProps[Prop]);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * React animation hook that chains the animations of elements in a
+ * sequence, with a promise per step.
+ *
+ * Returns an object with the following functions:
+ * - **`animate(ref, to, options?)`** - Animates the properties of an element, resolving when its springs come to rest.
+ * - **`wait(ms)`** - Waits for a number of milliseconds.
+ * - **`play(steps)`** - Plays steps one after the other, returning a promise per step.
+ * - **`stop()`** - Stops the sequence. The pending promises resolve to `false`.
+ *
+ * The elements are animated with springs in the spring system of the
+ * nearest `{@link SpringSystemProvider}`, starting from the value of
+ * their previous step, or from their computed style. The properties
+ * animated by a sequence should not be animated by
+ * `{@link useAnimation}` at the same time. When the motion is reduced
+ * (see `{@link MotionConfig}`), the springs jump to their end values.
+ *
+ * @example
+ * ```tsx
+ * const { play } = useAnimationSequence();
+ *
+ * useEffect(() => {
+ *   const [a, wait, cd] = play([
+ *     { ref: a, to: { translateX: 100 } },
+ *     300,
+ *     [
+ *       { ref: c, to: { opacity: 1 } },
+ *       { ref: d, to: { scaleX: 2 }, config: "wobbly" },
+ *     ],
+ *   ]);
+ *
+ *   cd.then(finished => finished && console.log("Done"));
+ * }, []);
+ * ```
+ *
+ * @returns The functions to animate the elements
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useAnimationSequence = (): UseAnimationSequenceReturn => {
+  const springSystem = useContext(SpringSystemContext)();
+  const animateOpacityRef = useLatest(
+    useContext(MotionConfigContext)().animateOpacity
+  );
+  const reduceMotionRef = useLatest(useReducedMotion());
+  const targetsRef = useRef(
+    new Map<HTMLElement | SVGElement, AnimationSequenceTarget>()
+  );
+  const pendingRef = useRef(new Set<(finished: boolean) => void>());
+  const generationRef = useRef(0);
+
+  const styleBatch = getStyleBatch(springSystem);
+
+  const getTarget = useCallback((element: HTMLElement | SVGElement) => {
+    let target = targetsRef.current.get(element);
+
+    if (!target) {
+      const newTarget: AnimationSequenceTarget = {
+        springs: {},
+        units: {},
+        update: {
+          getElement: () => element,
+          getStyle: () => {
+            const values: Partial<AnimatableProps> = {};
+
+            for (const p in newTarget.springs) {
+              const prop = p as keyof AnimatableProps;
+              const value = newTarget.springs[prop]?.getCurrentValue();
+              const unit = newTarget.units[prop];
+
+              // @ts-expect-error: TS doesn't like the complexity of this type.
+              values[prop] = unit ? { value, unit } : value;
+            }
+
+            return toStyle(values);
+          },
+          getAttributes: () => {
+            const values: Partial<AnimatableProps> = {};
+
+            for (const p in newTarget.springs) {
+              const prop = p as keyof AnimatableProps;
+
+              if (prop in svgAttributes) {
+                // @ts-expect-error: TS doesn't like the complexity of this type.
+                values[prop] = newTarget.springs[prop]?.getCurrentValue();
+              }
+            }
+
+            return toSVGAttributes(values);
+          },
+        },
+      };
+
+      targetsRef.current.set(element, newTarget);
+      target = newTarget;
+    }
+
+    return target;
+  }, []);
+
+  const animate = useCallback(
+    (
+      ref: React.RefObject<HTMLElement | SVGElement | null | undefined>,
+      to: Partial<AnimatableProps>,
+      options: AnimationStepOptions = {}
+    ) => {
+      const element = ref.current;
+
+      if (!element) {
+        return Promise.resolve(false);
+      }
+
+      const {
+        from = {},
+        tension = 230,
+        friction = 22,
+        config,
+        colorSpace = "srgb",
+      } = options;
+      const springConfig = config
+        ? SpringConfig.from(config)
+        : new SpringConfig(tension, friction);
+      const target = getTarget(element);
+      const springs: AnimatableSpring[] = [];
+
+      for (const p in to) {
+        const prop = p as keyof AnimatableProps;
+
+        if (to[prop] === undefined) {
+          continue;
+        }
+
+        let endValue = parseAnimatableValue(
+          prop,
+          to[prop] as AnimatableProps[typeof prop]
+        );
+        let startValue =
+          from[prop] === undefined
+            ? undefined
+            : parseAnimatableValue(
+                prop,
+                from[prop] as AnimatableProps[typeof prop]
+              );
+        let spring = target.springs[prop];
+
+        if (!spring && startValue === undefined) {
+          startValue = getInitialValue(element, prop);
+        }
+
+        // The springs of lengths animate the number, in the unit of the
+        // end value, like in `useAnimation`
+        if (isLengthProperty(prop, endValue)) {
+          const { value, unit } = parseUnitValue(
+            endValue as AnimatableLength,
+            prop,
+            element
+          );
+          const currentUnit = target.units[prop];
+
+          if (startValue !== undefined) {
+            startValue =
+              convertLength(
+                startValue as AnimatableLength,
+                unit,
+                prop,
+                element
+              ) ?? undefined;
+          } else if (
+            spring &&
+            currentUnit &&
+            currentUnit !== unit &&
+            !convertLengthSpring(
+              spring as Spring,
+              currentUnit,
+              unit,
+              prop,
+              element
+            )
+          ) {
+            startValue = value;
+          }
+
+          target.units[prop] = unit;
+          endValue = value;
+        }
+
+        if (!spring) {
+          const newSpring = createAnimatableSpring(
+            springSystem,
+            prop,
+            startValue ?? endValue,
+            springConfig,
+            colorSpace
+          ) as AnimatableSpring;
+
+          newSpring.addListener({
+            onSpringUpdate: () => styleBatch.schedule(target.update),
+          });
+          spring = target.springs[prop] = newSpring;
+        } else {
+          spring.setSpringConfig(springConfig);
+
+          if (startValue !== undefined) {
+            spring.setCurrentValue(startValue as never);
+          }
+        }
+
+        if (
+          reduceMotionRef.current &&
+          !(animateOpacityRef.current && prop === "opacity")
+        ) {
+          spring.setCurrentValue(endValue as never);
+        } else {
+          spring.setEndValue(endValue as never);
+        }
+
+        springs.push(spring);
+      }
+
+      return new Promise<boolean>(resolve => {
+        const listener: SpringListener = {
+          onSpringAtRest: () => {
+            if (springs.every(spring => spring.isAtRest())) {
+              finish(true);
+            }
+          },
+        };
+
+        const finish = (finished: boolean) => {
+          pendingRef.current.delete(finish);
+
+          for (const spring of springs) {
+            spring.removeListener(listener);
+          }
+
+          resolve(finished);
+        };
+
+        pendingRef.current.add(finish);
+
+        for (const spring of springs) {
+          spring.addListener(listener);
+        }
+
+        listener.onSpringAtRest?.(springs[0] as Spring);
+      });
+    },
+    [getTarget, springSystem, styleBatch, reduceMotionRef, animateOpacityRef]
+  );
+
+  const wait = useCallback(
+    (ms: number) =>
+      new Promise<boolean>(resolve => {
+        const start = getFrameTime();
+        let frameId = 0;
+
+        const finish = (finished: boolean) => {
+          pendingRef.current.delete(finish);
+          cancelFrame(frameId);
+          resolve(finished);
+        };
+
+        const tick = () => {
+          if (getFrameTime() - start >= ms) {
+            finish(true);
+          } else {
+            frameId = requestFrame(tick);
+          }
+        };
+
+        pendingRef.current.add(finish);
+        tick();
+      }),
+    []
+  );
+
+  const play = useCallback(
+    (steps: AnimationSequenceStep[]) => {
+      const generation = generationRef.current;
+      let previous = Promise.resolve(true);
+
+      return steps.map(step => {
+        previous = previous.then(finished => {
+          if (!finished || generation !== generationRef.current) {
+            return false;
+          }
+
+          if (typeof step === "number") {
+            return wait(step);
+          }
+
+          return Promise.all(
+            (Array.isArray(step) ? step : [step]).map(
+              ({ ref, to, ...options }) => animate(ref, to, options)
+            )
+          ).then(results => results.every(Boolean));
+        });
+
+        return previous;
+      });
+    },
+    [animate, wait]
+  );
+
+  const stop = useCallback(() => {
+    generationRef.current += 1;
+
+    for (const finish of [...pendingRef.current]) {
+      finish(false);
+    }
+
+    for (const target of targetsRef.current.values()) {
+      for (const spring of Object.values(target.springs)) {
+        spring?.setAtRest();
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const targets = targetsRef.current;
+
+    return () => {
+      stop();
+
+      for (const target of targets.values()) {
+        styleBatch.unschedule(target.update);
+
+        for (const spring of Object.values(target.springs)) {
+          spring?.destroy();
+        }
+      }
+
+      targets.clear();
+    };
+  }, [stop, styleBatch]);
+
+  return { animate, wait, play, stop };
+};
@@ -0,0 +1,367 @@
+import { useContext, useEffect, useState } from "react";
+
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import { SpringValue } from "../../logic/animatedValue.ts";
+import {
+  findNearestSnapPoint,
+  rubberband,
+  VelocityTracker,
+} from "../../logic/drag.ts";
+import { measureLayout } from "../../logic/layout.ts";
+import { DecaySimulation, SpringConfig } from "../../logic/springs.ts";
+import type {
+  DragInfo,
+  UseDragOptions,
+  UseDragReturn,
+} from "../../types/animations.ts";
+import type { DragBounds } from "../../types/logic.ts";
+import { off } from "../../utils/off.ts";
+import { on } from "../../utils/on.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
+
+/**
+ * The bounds of a drag gesture without bounds.
+ */
+const unbounded: Required<DragBounds> = {
+  left: -Infinity,
+  right: Infinity,
+  top: -Infinity,
+  bottom: Infinity,
+};
+
+/**
+ * React animation hook that lets an element be dragged with a pointer,
+ * and settles it with springs when it is released.
+ *
+ * Returns the position of the element as two `{@link SpringValue}`s,
+ * to bind to its translation with `{@link useAnimatedStyle}`, so that
+ * the component doesn't re-render while the element moves. It
+ * re-renders when the gesture starts and ends, for `isDragging`.
+ *
+ * The element can be dragged along one axis, or locked to the axis the
+ * pointer first moves along. Past its bounds, the element stretches
+ * like a rubber band. When released, the velocity of the pointer is
+ * handed to the springs, so that the element keeps its momentum: it
+ * glides to where its momentum carries it, or to the nearest snap
+ * point, within its bounds. When the motion is reduced (see
+ * `{@link MotionConfig}`), the element jumps there instead.
+ *
+ * When the bounds are an element, the dragged element is kept within
+ * it, the position being the translation of the dragged element.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null);
+ * const { x, isDragging } = useDrag(ref, {
+ *   axis: "x",
+ *   bounds: { left: -200, right: 0 },
+ *   snapPoints: [{ x: -200 }, { x: 0 }],
+ * });
+ *
+ * useAnimatedStyle(ref, { translateX: x });
+ *
+ * return (
+ *   <div ref={ref} style={{ cursor: isDragging ? "grabbing" : "grab" }}>
+ *     Swipe me
+ *   </div>
+ * );
+ * ```
+ *
+ * @param ref The reference to the element to drag
+ * @param options (Optional) The options of the drag gesture
+ * @param options.axis (Optional) The axes the element can be dragged along, `"x"`, `"y"` or `"lock"` (Defaults to both axes)
+ * @param options.bounds (Optional) The bounds of the position, or the element to keep the dragged element within
+ * @param options.rubberband (Optional) Whether the element stretches past its bounds, or the elasticity of the stretch (Defaults to `0.15`)
+ * @param options.snapPoints (Optional) The positions the element settles at when released
+ * @param options.momentum (Optional) Whether the element glides with the velocity it is released with, or the friction of the glide (Defaults to `true`)
+ * @param options.threshold (Optional) The distance the pointer moves before the gesture starts (Defaults to `3`)
+ * @param options.config (Optional) The config of the springs the element settles with (Defaults to `"default"`)
+ * @param options.initial (Optional) The position to start at (Defaults to `{ x: 0, y: 0 }`)
+ * @param options.disabled (Optional) Whether the element can't be dragged
+ * @param options.onDragStart (Optional) The callback to call when the gesture starts
+ * @param options.onDrag (Optional) The callback to call when the pointer moves during the gesture
+ * @param options.onDragEnd (Optional) The callback to call when the element is released
+ * @returns The position of the element and whether it is being dragged
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useDrag = (
+  ref: React.RefObject<HTMLElement | SVGElement | null | undefined>,
+  options: UseDragOptions = {}
+): UseDragReturn => {
+  const { axis, config = "default", initial = {}, disabled = false } = options;
+
+  // Resolve the config to numbers, so that a config object
+  // created on each render doesn't recreate the springs.
+  const springConfig = SpringConfig.from(config);
+  const springTension = springConfig.tension;
+  const springFriction = springConfig.friction;
+
+  const springSystem = useContext(SpringSystemContext)();
+  const reduceMotion = useReducedMotion();
+  const [x] = useState(() => new SpringValue(initial.x ?? 0));
+  const [y] = useState(() => new SpringValue(initial.y ?? 0));
+  const [isDragging, setIsDragging] = useState(false);
+
+  const optionsRef = useLatest(options);
+  const reduceMotionRef = useLatest(reduceMotion);
+
+  useEffect(() => {
+    const newSpringConfig = new SpringConfig(springTension, springFriction);
+    const springX = springSystem.createSpringWithConfig(newSpringConfig);
+    const springY = springSystem.createSpringWithConfig(newSpringConfig);
+    const restGroup = [springX, springY];
+
+    // The springs come to rest together, so that a diagonal throw
+    // doesn't settle on one axis before the other
+    springX.setRestGroup(restGroup);
+    springY.setRestGroup(restGroup);
+
+    x.attach(springX);
+    y.attach(springY);
+
+    return () => {
+      x.detach();
+      y.detach();
+      springX.destroy();
+      springY.destroy();
+    };
+  }, [springSystem, springTension, springFriction, x, y]);
+
+  useEffect(() => {
+    const element = ref.current;
+
+    if (!element || disabled) {
+      return;
+    }
+
+    const tracker = new VelocityTracker();
+    let pointerId: number | null = null;
+    let isActive = false;
+    let lockedAxis: "x" | "y" | null = null;
+    let bounds = unbounded;
+    let startX = 0;
+    let startY = 0;
+    let originX = 0;
+    let originY = 0;
+
+    const getBounds = (): Required<DragBounds> => {
+      const { bounds: boundsOption } = optionsRef.current;
+
+      if (!boundsOption) {
+        return unbounded;
+      }
+
+      if (!("current" in boundsOption)) {
+        return { ...unbounded, ...boundsOption };
+      }
+
+      if (!boundsOption.current) {
+        return unbounded;
+      }
+
+      const box = measureLayout(element);
+      const area = measureLayout(boundsOption.current);
+
+      return {
+        left: area.x - box.x,
+        right: area.x + area.width - box.x - box.width,
+        top: area.y - box.y,
+        bottom: area.y + area.height - box.y - box.height,
+      };
+    };
+
+    const constrain = (
+      value: number,
+      min: number,
+      max: number,
+      dimension: number
+    ) => {
+      const { rubberband: elasticity = true } = optionsRef.current;
+
+      if (elasticity === false) {
+        return Math.min(max, Math.max(min, value));
+      }
+
+      return rubberband(
+        value,
+        min,
+        max,
+        dimension,
+        elasticity === true ? undefined : elasticity
+      );
+    };
+
+    const getInfo = (
+      event: PointerEvent,
+      velocityX: number = 0,
+      velocityY: number = 0
+    ): DragInfo => ({
+      x: x.get(),
+      y: y.get(),
+      velocityX,
+      velocityY,
+      axis: lockedAxis,
+      event,
+    });
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) {
+        return;
+      }
+
+      const { threshold = 3, onDragStart, onDrag } = optionsRef.current;
+      const deltaX = event.clientX - startX;
+      const deltaY = event.clientY - startY;
+
+      tracker.addSample(event.timeStamp, event.clientX, event.clientY);
+
+      if (!isActive) {
+        if (Math.hypot(deltaX, deltaY) < threshold) {
+          return;
+        }
+
+        isActive = true;
+        bounds = getBounds();
+
+        if (axis === "lock") {
+          lockedAxis = Math.abs(deltaX) >= Math.abs(deltaY) ? "x" : "y";
+        }
+
+        element.setPointerCapture?.(event.pointerId);
+        setIsDragging(true);
+        onDragStart?.(getInfo(event));
+      }
+
+      const { width, height } = element.getBoundingClientRect();
+
+      if (lockedAxis !== "y") {
+        x.set(constrain(originX + deltaX, bounds.left, bounds.right, width));
+      }
+
+      if (lockedAxis !== "x") {
+        y.set(constrain(originY + deltaY, bounds.top, bounds.bottom, height));
+      }
+
+      onDrag?.(getInfo(event));
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) {
+        return;
+      }
+
+      pointerId = null;
+      off(document, "pointermove", onPointerMove);
+      off(document, "pointerup", onPointerUp);
+      off(document, "pointercancel", onPointerUp);
+
+      if (!isActive) {
+        return;
+      }
+
+      isActive = false;
+
+      const { snapPoints, momentum = true, onDragEnd } = optionsRef.current;
+      let [velocityX, velocityY] =
+        event.type === "pointercancel"
+          ? [0, 0]
+          : tracker.getVelocity(event.timeStamp);
+
+      velocityX = lockedAxis === "y" ? 0 : velocityX;
+      velocityY = lockedAxis === "x" ? 0 : velocityY;
+
+      // The element settles where its momentum carries it, the way a
+      // decay simulation with the friction of the momentum would
+      const friction =
+        momentum === true ? DecaySimulation.DEFAULT_FRICTION : momentum;
+      const project = (value: number, velocity: number) =>
+        friction !== false && friction > 0
+          ? value + velocity / friction
+          : value;
+
+      let targetX = Math.min(
+        bounds.right,
+        Math.max(bounds.left, project(x.get(), velocityX))
+      );
+      let targetY = Math.min(
+        bounds.bottom,
+        Math.max(bounds.top, project(y.get(), velocityY))
+      );
+
+      if (snapPoints?.length) {
+        const snapPoint = findNearestSnapPoint(
+          { x: targetX, y: targetY },
+          snapPoints
+        );
+
+        targetX = snapPoint?.x ?? targetX;
+        targetY = snapPoint?.y ?? targetY;
+      }
+
+      setIsDragging(false);
+      onDragEnd?.(getInfo(event, velocityX, velocityY));
+
+      if (reduceMotionRef.current) {
+        x.set(lockedAxis === "y" ? x.get() : targetX);
+        y.set(lockedAxis === "x" ? y.get() : targetY);
+        return;
+      }
+
+      if (lockedAxis !== "y") {
+        x.animateTo(targetX);
+        x.getSpring()?.setVelocity(velocityX);
+      }
+
+      if (lockedAxis !== "x") {
+        y.animateTo(targetY);
+        y.getSpring()?.setVelocity(velocityY);
+      }
+    };
+
+    const onPointerDown = (event: PointerEvent) => {
+      if (pointerId !== null || event.button !== 0) {
+        return;
+      }
+
+      pointerId = event.pointerId;
+      isActive = false;
+      lockedAxis = axis === "x" || axis === "y" ? axis : null;
+      startX = event.clientX;
+      startY = event.clientY;
+
+      // The element is caught where it is, if it is still settling
+      x.set(x.get());
+      y.set(y.get());
+      originX = x.get();
+      originY = y.get();
+
+      tracker.reset();
+      tracker.addSample(event.timeStamp, event.clientX, event.clientY);
+
+      on(document, "pointermove", onPointerMove);
+      on(document, "pointerup", onPointerUp);
+      on(document, "pointercancel", onPointerUp);
+    };
+
+    // The browser doesn't scroll along the axes the element is dragged along
+    const { touchAction } = element.style;
+
+    element.style.touchAction =
+      axis === "x" ? "pan-y" : axis === "y" ? "pan-x" : "none";
+    on(element, "pointerdown", onPointerDown);
+
+    return () => {
+      element.style.touchAction = touchAction;
+      off(element, "pointerdown", onPointerDown);
+      off(document, "pointermove", onPointerMove);
+      off(document, "pointerup", onPointerUp);
+      off(document, "pointercancel", onPointerUp);
+    };
+  }, [ref, axis, disabled, x, y, optionsRef, reduceMotionRef]);
+
+  return { x, y, isDragging };
+};
@@ -0,0 +1,164 @@
+import { useContext, useEffect, useRef } from "react";
+
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import {
+  getVisualBox,
+  identityLayoutTransform,
+  invertLayout,
+  isSameLayout,
+  measureLayout,
+  setLayoutSnapshot,
+  takeLayoutSnapshot,
+} from "../../logic/layout.ts";
+import { getStyleBatch } from "../../logic/styleBatch.ts";
+import type {
+  LayoutSprings,
+  UseLayoutAnimationOptions,
+} from "../../types/animations.ts";
+import type { LayoutBox, LayoutTransform } from "../../types/logic.ts";
+import { isUndefined } from "../../utils/isUndefined.ts";
+import { useIsomorphicLayoutEffect } from "../lifecycles/useIsomorphicLayoutEffect.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
+
+/**
+ * The properties of a layout transform.
+ */
+const layoutProps = Object.keys(
+  identityLayoutTransform
+) as (keyof LayoutTransform)[];
+
+/**
+ * React animation hook that animates the changes of the layout of an
+ * element with the FLIP technique: the element is measured before and
+ * after each commit, moved back to where it was seen with a transform,
+ * and the transform springs back to the identity.
+ *
+ * The transform is animated by the `translateX`, `translateY`,
+ * `scaleX` and `scaleY` springs of a `{@link useAnimation}` call, in
+ * pixels. The `{@link Animate}` component uses this hook for its
+ * `layout` and `layoutId` props. The layout changes are not animated
+ * when the motion is reduced (see `{@link MotionConfig}`).
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLLIElement>(null);
+ * const springs = useAnimation(ref, {
+ *   translateX: 0,
+ *   translateY: 0,
+ *   scaleX: 1,
+ *   scaleY: 1,
+ * });
+ *
+ * useLayoutAnimation(ref, springs, { layout: true });
+ *
+ * return <li ref={ref}>{item.label}</li>;
+ * ```
+ *
+ * @param ref The reference to the element to animate
+ * @param springs The springs animating the transform of the element
+ * @param options The options for the layout animation
+ * @param options.layout (Optional) Whether to animate the changes of the layout
+ * @param options.layoutId (Optional) The ID of a shared layout to animate from
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useLayoutAnimation = (
+  ref: React.RefObject<HTMLElement | SVGElement | null | undefined>,
+  springs: LayoutSprings,
+  options: UseLayoutAnimationOptions
+): void => {
+  const { layout = false, layoutId } = options;
+
+  const springSystem = useContext(SpringSystemContext)();
+  const reduceMotion = useReducedMotion();
+  const boxRef = useRef<LayoutBox | null>(null);
+  const pendingRef = useRef<LayoutTransform | null>(null);
+
+  const getTransform = (): LayoutTransform => {
+    const transform = { ...identityLayoutTransform };
+
+    for (const prop of layoutProps) {
+      transform[prop] = springs[prop]?.getCurrentValue() ?? transform[prop];
+    }
+
+    return transform;
+  };
+
+  const startFrom = (transform: LayoutTransform) => {
+    if (layoutProps.some(prop => !springs[prop])) {
+      return false;
+    }
+
+    for (const prop of layoutProps) {
+      const spring = springs[prop] as NonNullable<LayoutSprings[typeof prop]>;
+      const endValue = spring.getEndValue();
+
+      spring.setCurrentValue(transform[prop], true);
+      spring.setEndValue(endValue);
+    }
+
+    // Write the inverted transform before the browser paints
+    getStyleBatch(springSystem).flush();
+
+    return true;
+  };
+
+  useIsomorphicLayoutEffect(() => {
+    const element = ref.current;
+
+    if ((!layout && isUndefined(layoutId)) || !element || reduceMotion) {
+      boxRef.current = null;
+      pendingRef.current = null;
+      return;
+    }
+
+    const previousBox = boxRef.current;
+    const box = measureLayout(element);
+    let from: LayoutBox | null = null;
+
+    if (previousBox) {
+      if (!isSameLayout(previousBox, box)) {
+        from = getVisualBox(previousBox, getTransform());
+      }
+    } else if (!isUndefined(layoutId)) {
+      from = takeLayoutSnapshot(layoutId);
+    }
+
+    boxRef.current = box;
+
+    if (!from) {
+      return;
+    }
+
+    const transform = invertLayout(from, box);
+
+    // The springs are created after the first commit
+    if (!startFrom(transform)) {
+      pendingRef.current = transform;
+      element.style.transform = `translate(${transform.translateX}px,${transform.translateY}px) scale(${transform.scaleX},${transform.scaleY})`;
+    }
+  });
+
+  useEffect(() => {
+    if (pendingRef.current && startFrom(pendingRef.current)) {
+      pendingRef.current = null;
+    }
+  });
+
+  useIsomorphicLayoutEffect(() => {
+    if (isUndefined(layoutId)) {
+      return;
+    }
+
+    return () => {
+      if (boxRef.current) {
+        setLayoutSnapshot(
+          layoutId,
+          getVisualBox(boxRef.current, getTransform())
+        );
+      }
+    };
+  }, [layoutId]);
+};
@@ -0,0 +1,54 @@
+import { useContext } from "react";
+
+import { PresenceContext } from "../../components/AnimatePresence.tsx";
+import type { UsePresenceReturn } from "../../types/animations.ts";
+import { noop } from "../../utils/noop.ts";
+import { useIsomorphicLayoutEffect } from "../lifecycles/useIsomorphicLayoutEffect.ts";
+
+/**
+ * React animation hook that tells whether the component is still
+ * present in its `{@link AnimatePresence}`.
+ *
+ * Returns a tuple with the following values:
+ * - **`isPresent: boolean`** - Whether the component is still present.
+ * - **`safeToRemove: () => void`** - Unmounts the component once it was removed.
+ *
+ * A removed component stays mounted until it calls `safeToRemove`,
+ * so that it can run its own exit animation. The children of the
+ * AnimatePresence that don't use `usePresence`, nor `{@link Animate}`,
+ * are unmounted as soon as they are removed. Outside of an
+ * AnimatePresence, the component is always present.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null);
+ * const [isPresent, safeToRemove] = usePresence();
+ *
+ * useAnimation(
+ *   ref,
+ *   { opacity: isPresent ? 1 : 0 },
+ *   { onEnd: () => !isPresent && safeToRemove() }
+ * );
+ *
+ * return <div ref={ref}>I fade out</div>;
+ * ```
+ *
+ * @returns A tuple with the presence of the component and the function to unmount it
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const usePresence = (): UsePresenceReturn => {
+  const presence = useContext(PresenceContext)();
+
+  // The AnimatePresence keeps the component mounted when it is removed
+  useIsomorphicLayoutEffect(() => {
+    presence?.register();
+  });
+
+  if (!presence) {
+    return [true, noop];
+  }
+
+  return [presence.isPresent, presence.onExitComplete];
+};
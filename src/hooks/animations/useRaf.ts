@@ -1,12 +1,21 @@
 import { useState } from "react";
 
+import {
+  cancelFrame,
+  getFrameTime,
+  requestFrame,
+} from "../../logic/animationClock.ts";
 import { useIsomorphicLayoutEffect } from "../lifecycles/useIsomorphicLayoutEffect.ts";
 
+import { useReducedMotion } from "./useReducedMotion.ts";
+
 /**
  * React animation hook that forces component to re-render on
  * each `requestAnimationFrame`.
  *
- * Returns the percentage of the time elapsed.
+ * Returns the percentage of the time elapsed. When the motion is
+ * reduced (see `{@link MotionConfig}`), it jumps to `1` once the
+ * delay is over.
  *
  * @example
  * ```tsx
@@ -28,42 +37,40 @@ import { useIsomorphicLayoutEffect } from "../lifecycles/useIsomorphicLayoutEffe
  */
 export const useRaf = (ms: number = 1e12, delay: number = 0): number => {
   const [elapsed, setElapsed] = useState(0);
+  const reduceMotion = useReducedMotion();
 
   useIsomorphicLayoutEffect(() => {
     let raf: number;
-    let timerStop: ReturnType<typeof setTimeout>;
-    let start: number;
+
+    // Timing is read from the frame clock, so that an installed
+    // `AnimationClock` drives the delay as well as the animation.
+    const start = getFrameTime() + delay;
 
     const onFrame = () => {
-      const time = Math.min(1, (Date.now() - start) / ms);
-      setElapsed(time);
+      const time = getFrameTime() - start;
+
+      if (time >= 0) {
+        const progress = reduceMotion ? 1 : Math.min(1, time / ms);
+        setElapsed(progress);
+
+        if (progress === 1) {
+          return;
+        }
+      }
 
       loop();
     };
 
     const loop = () => {
-      raf = requestAnimationFrame(onFrame);
-    };
-
-    const onStart = () => {
-      timerStop = setTimeout(() => {
-        cancelAnimationFrame(raf);
-        setElapsed(1);
-      }, ms);
-
-      start = Date.now();
-
-      loop();
+      raf = requestFrame(onFrame);
     };
 
-    const timerDelay = setTimeout(onStart, delay);
+    loop();
 
     return () => {
-      clearTimeout(timerStop);
-      clearTimeout(timerDelay);
-      cancelAnimationFrame(raf);
+      cancelFrame(raf);
     };
-  }, [ms, delay]);
+  }, [ms, delay, reduceMotion]);
 
   return elapsed;
 };
@@ -0,0 +1,76 @@
+import { useContext, useEffect, useState } from "react";
+
+import { MotionConfigContext } from "../../components/MotionConfig.tsx";
+import { hasWindow } from "../../utils/hasWindow.ts";
+import { isFunction } from "../../utils/isFunction.ts";
+
+/**
+ * The media query of the reduced motion preference.
+ */
+const query = "(prefers-reduced-motion: reduce)";
+
+/**
+ * Get the media query list of the reduced motion preference.
+ *
+ * @returns The media query list, or `null` if media queries are not supported
+ */
+const getMediaQueryList = (): MediaQueryList | null =>
+  hasWindow() && isFunction(window.matchMedia)
+    ? window.matchMedia(query)
+    : null;
+
+/**
+ * React animation hook that tells whether the motion should be
+ * reduced, following the `reducedMotion` policy of the nearest
+ * `{@link MotionConfig}` and the `prefers-reduced-motion` preference
+ * of the user.
+ *
+ * Outside of a MotionConfig, the motion is reduced when the user
+ * prefers reduced motion.
+ *
+ * @example
+ * ```tsx
+ * const reduceMotion = useReducedMotion();
+ *
+ * return (
+ *   <div style={{ transition: reduceMotion ? "none" : "transform 200ms" }}>
+ *     I respect the reduced motion preference
+ *   </div>
+ * );
+ * ```
+ *
+ * @returns Whether the motion should be reduced
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useReducedMotion = (): boolean => {
+  const { reducedMotion } = useContext(MotionConfigContext)();
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => !!getMediaQueryList()?.matches
+  );
+
+  useEffect(() => {
+    const mql = reducedMotion === "user" ? getMediaQueryList() : null;
+
+    if (!mql) {
+      return;
+    }
+
+    const onChange = () => {
+      setPrefersReducedMotion(mql.matches);
+    };
+
+    mql.addEventListener("change", onChange);
+    onChange();
+
+    return () => {
+      mql.removeEventListener("change", onChange);
+    };
+  }, [reducedMotion]);
+
+  return (
+    reducedMotion === "always" ||
+    (reducedMotion === "user" && prefersReducedMotion)
+  );
+};
@@ -0,0 +1,182 @@
+import { useCallback, useContext, useEffect, useRef } from "react";
+
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import { requestFrame } from "../../logic/animationClock.ts";
+import {
+  getElementScrollPosition,
+  getMaxScrollPosition,
+  getScrollPosition,
+  setScrollPosition,
+} from "../../logic/scroll.ts";
+import { SpringConfig } from "../../logic/springs.ts";
+import type {
+  SmoothScrollOptions,
+  SmoothScrollTarget,
+  UseSmoothScrollReturn,
+} from "../../types/animations.ts";
+import { off } from "../../utils/off.ts";
+import { on } from "../../utils/on.ts";
+import { warn } from "../../utils/warn.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
+
+/**
+ * The events of the user scrolling, which stop a smooth scroll.
+ */
+const userScrollEvents = ["wheel", "touchstart", "keydown"];
+
+/**
+ * React animation hook that scrolls the window, or a scroll container,
+ * with a spring.
+ *
+ * Returns the following functions:
+ * - **`scrollTo(target, options)`** - Scrolls to a scroll position, an element, or the selector of an element
+ * - **`cancel()`** - Stops the scroll in progress
+ *
+ * Unlike the native `behavior: "smooth"`, the spring can be tuned, and
+ * the scroll stops as soon as the user scrolls, e.g. with the mouse
+ * wheel, a touch, the keyboard or the scrollbar. A new scroll stops
+ * the one in progress. When the motion is reduced (see
+ * `{@link MotionConfig}`), the scroll jumps to the target.
+ *
+ * @example
+ * ```tsx
+ * const { scrollTo } = useSmoothScroll();
+ *
+ * return (
+ *   <nav>
+ *     <button onClick={() => scrollTo("#pricing", { offset: 64 })}>Pricing</button>
+ *     <button onClick={() => scrollTo(0, { config: "gentle" })}>Back to top</button>
+ *   </nav>
+ * );
+ * ```
+ *
+ * @param ref (Optional) The reference to the scroll container (Defaults to the window)
+ * @returns The functions to scroll and to stop scrolling
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useSmoothScroll = (
+  ref?: React.RefObject<HTMLElement | null | undefined>
+): UseSmoothScrollReturn => {
+  const springSystem = useContext(SpringSystemContext)();
+  const reduceMotion = useReducedMotion();
+
+  const reduceMotionRef = useLatest(reduceMotion);
+  const stopRef = useRef<((isDone: boolean) => void) | null>(null);
+
+  const cancel = useCallback(() => {
+    stopRef.current?.(false);
+  }, []);
+
+  const scrollTo = useCallback(
+    (target: SmoothScrollTarget, options: SmoothScrollOptions = {}) => {
+      const { offset = 0, config = "default", axis = "y" } = options;
+      const container = ref?.current ?? window;
+
+      stopRef.current?.(false);
+
+      const element =
+        typeof target === "string"
+          ? (container === window
+              ? document
+              : (container as Element)
+            ).querySelector(target)
+          : target;
+
+      if (element === null) {
+        warn("`useSmoothScroll` could not find the element to scroll to", {
+          target,
+        });
+        return Promise.resolve(false);
+      }
+
+      const position =
+        typeof element === "number"
+          ? element
+          : getElementScrollPosition(container, element, axis);
+      const endValue = Math.max(
+        0,
+        Math.min(getMaxScrollPosition(container, axis), position - offset)
+      );
+
+      if (reduceMotionRef.current) {
+        setScrollPosition(container, axis, endValue);
+        return Promise.resolve(true);
+      }
+
+      const spring = springSystem.createSpringWithConfig(
+        SpringConfig.from(config)
+      );
+      let scrollPosition = getScrollPosition(container, axis);
+
+      spring.setCurrentValue(scrollPosition);
+
+      return new Promise<boolean>(resolve => {
+        let isStopped = false;
+
+        const stop = (isDone: boolean) => {
+          if (isStopped) {
+            return;
+          }
+
+          isStopped = true;
+
+          if (stopRef.current === stop) {
+            stopRef.current = null;
+          }
+
+          userScrollEvents.forEach(event =>
+            off(container, event, onUserScroll)
+          );
+          off(container, "scroll", onScroll);
+
+          // The spring can be stopped by its own listener while the
+          // spring system advances, so it is destroyed on the next frame
+          spring.removeAllListeners().setAtRest();
+          requestFrame(() => spring.destroy());
+          resolve(isDone);
+        };
+
+        const onUserScroll = () => stop(false);
+
+        // A scroll to another position than the one the spring wrote
+        // comes from the user, e.g. dragging the scrollbar
+        const onScroll = () => {
+          if (
+            Math.abs(getScrollPosition(container, axis) - scrollPosition) > 1
+          ) {
+            stop(false);
+          }
+        };
+
+        spring.addListener({
+          onSpringUpdate: () => {
+            setScrollPosition(container, axis, spring.getCurrentValue());
+            scrollPosition = getScrollPosition(container, axis);
+          },
+          onSpringAtRest: () => stop(true),
+        });
+
+        stopRef.current = stop;
+        userScrollEvents.forEach(event =>
+          on(container, event, onUserScroll, { passive: true })
+        );
+        on(container, "scroll", onScroll, { passive: true });
+
+        spring.setEndValue(endValue);
+
+        if (spring.isAtRest()) {
+          stop(true);
+        }
+      });
+    },
+    [ref, springSystem, reduceMotionRef]
+  );
+
+  useEffect(() => cancel, [cancel]);
+
+  return { scrollTo, cancel };
+};
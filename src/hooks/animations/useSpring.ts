@@ -1,10 +1,21 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useContext, useEffect, useMemo, useRef, useState } from "react";
 
-import { Spring, SpringSystem } from "../../logic/springs.ts";
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import { DecaySimulation, Spring, SpringConfig } from "../../logic/springs.ts";
+import type { UseSpringOptions } from "../../types/animations.ts";
+import type {
+  DecaySimulationOptions,
+  SpringConfigInput,
+} from "../../types/logic.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
 
 /**
  * React animation hook that updates a single numeric value
- * over time according to spring dynamics.
+ * over time according to spring dynamics. The spring runs in
+ * the spring system shared by the nearest `{@link SpringSystemProvider}`.
+ * When the motion is reduced (see `{@link MotionConfig}`), the value
+ * jumps to the target value.
  *
  * @example
  * ```tsx
@@ -25,9 +36,32 @@ import { Spring, SpringSystem } from "../../logic/springs.ts";
  * );
  * ```
  *
+ * A drag release can glide to a stop by enabling the `decay` option
+ * and passing the velocity the gesture ended with:
+ *
+ * ```tsx
+ * const value = useSpring(target, 50, 3, {
+ *   decay: { min: 0, max: 500 },
+ *   velocity: releaseVelocity,
+ *   launchKey: releaseCount,
+ * });
+ * ```
+ *
+ * Instead of the Origami tension and friction, the spring can be
+ * configured with any of the forms accepted by `{@link SpringConfig.from}`:
+ *
+ * ```tsx
+ * const value = useSpring(target, "wobbly");
+ * const other = useSpring(target, { stiffness: 300, damping: 20, mass: 1 });
+ * ```
+ *
  * @param targetValue The target value to tween to
- * @param tension The tension of the spring
- * @param friction The friction of the spring
+ * @param tension The Origami tension of the spring, or the config of the spring
+ * @param friction The Origami friction of the spring, ignored when `tension` is a config
+ * @param options (Optional) The options of the spring
+ * @param options.velocity (Optional) The velocity to launch the spring with, in units per second
+ * @param options.launchKey (Optional) A key that launches the spring again with the velocity when it changes
+ * @param options.decay (Optional) Whether the spring should glide from its velocity and come to a stop
  * @returns The spring value
  *
  * @category Animation
@@ -35,9 +69,28 @@ import { Spring, SpringSystem } from "../../logic/springs.ts";
  */
 export const useSpring = (
   targetValue: number = 0,
-  tension: number = 50,
-  friction: number = 3
+  tension: number | SpringConfigInput = 50,
+  friction: number = 3,
+  options: UseSpringOptions = {}
 ): number => {
+  const { velocity, launchKey, decay = false } = options;
+  const {
+    friction: decayFriction = DecaySimulation.DEFAULT_FRICTION,
+    min,
+    max,
+  }: DecaySimulationOptions = typeof decay === "object" ? decay : {};
+
+  // Resolve the config to numbers, so that a config object
+  // created on each render doesn't recreate the spring.
+  const springConfig =
+    typeof tension === "number"
+      ? SpringConfig.fromOrigamiTensionAndFriction(tension, friction)
+      : SpringConfig.from(tension);
+  const springTension = springConfig.tension;
+  const springFriction = springConfig.friction;
+
+  const springSystem = useContext(SpringSystemContext)();
+  const reduceMotion = useReducedMotion();
   const [spring, setSpring] = useState<Spring | null>(null);
   const [value, setValue] = useState(targetValue);
 
@@ -56,28 +109,66 @@ export const useSpring = (
   const targetValueRef = useRef(targetValue);
   targetValueRef.current = targetValue;
 
+  const velocityRef = useRef(velocity);
+  velocityRef.current = velocity;
+
+  const decayRef = useRef(decay);
+  decayRef.current = decay;
+
+  const reduceMotionRef = useRef(reduceMotion);
+  reduceMotionRef.current = reduceMotion;
+
+  const isDecay = !!decay;
+
   useEffect(() => {
     if (!spring) {
-      const newSpring = new SpringSystem().createSpring(tension, friction);
+      const newSpringConfig = new SpringConfig(springTension, springFriction);
+      const newSpring = isDecay
+        ? springSystem
+            .createDecaySimulation(
+              decayRef.current === true ? {} : decayRef.current || undefined
+            )
+            .setSpringConfig(newSpringConfig)
+        : springSystem.createSpringWithConfig(newSpringConfig);
       newSpring.setCurrentValue(targetValueRef.current);
       setSpring(newSpring);
       newSpring.addListener(listener);
+
+      if (velocityRef.current && !reduceMotionRef.current) {
+        newSpring.setVelocity(velocityRef.current);
+      }
     }
 
     return () => {
       if (spring) {
         spring.removeListener(listener);
+        spring.destroy();
         setSpring(null);
       }
     };
-  }, [tension, friction, listener, spring]);
+  }, [springSystem, springTension, springFriction, isDecay, listener, spring]);
 
   useEffect(() => {
-    if (spring) {
+    if (spring && reduceMotion) {
+      spring.setCurrentValue(targetValue);
+    } else if (spring) {
       spring.setEndValue(targetValue);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [targetValue]);
 
+  useEffect(() => {
+    if (spring && velocity && !reduceMotion) {
+      spring.setVelocity(velocity);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [velocity, launchKey]);
+
+  useEffect(() => {
+    if (spring instanceof DecaySimulation) {
+      spring.setFriction(decayFriction).setBounds(min, max);
+    }
+  }, [spring, decayFriction, min, max]);
+
   return value;
 };
@@ -0,0 +1,153 @@
+import { useContext, useEffect, useState } from "react";
+
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import { SpringValue } from "../../logic/animatedValue.ts";
+import { DecaySimulation, SpringConfig } from "../../logic/springs.ts";
+import type { UseSpringOptions } from "../../types/animations.ts";
+import type {
+  DecaySimulationOptions,
+  SpringConfigInput,
+} from "../../types/logic.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
+
+/**
+ * React animation hook that animates a single numeric value with
+ * spring dynamics, like `{@link useSpring}`, without re-rendering the
+ * component on each frame.
+ *
+ * Returns a `{@link SpringValue}` that stays the same across renders.
+ * Its changes are observed with `subscribe`, and written to the DOM
+ * with `{@link useAnimatedStyle}` or `{@link useAnimatedText}`.
+ * Derived values are created with `to` and `interpolate`. When the
+ * motion is reduced (see `{@link MotionConfig}`), the value jumps to
+ * the target value.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null);
+ * const labelRef = useRef<HTMLSpanElement>(null);
+ * const x = useSpringValue(open ? 200 : 0, "wobbly");
+ *
+ * useAnimatedStyle(ref, {
+ *   translateX: x,
+ *   opacity: x.interpolate([0, 200], [0.5, 1]),
+ * });
+ * useAnimatedText(labelRef, x, v => `${Math.round(v)}px`);
+ *
+ * return (
+ *   <div ref={ref} onClick={() => x.animateTo(100)}>
+ *     <span ref={labelRef} />
+ *   </div>
+ * );
+ * ```
+ *
+ * @param targetValue The target value to animate to
+ * @param tension The Origami tension of the spring, or the config of the spring
+ * @param friction The Origami friction of the spring, ignored when `tension` is a config
+ * @param options (Optional) The options of the spring
+ * @param options.velocity (Optional) The velocity to launch the spring with, in units per second
+ * @param options.launchKey (Optional) A key that launches the spring again with the velocity when it changes
+ * @param options.decay (Optional) Whether the spring should glide from its velocity and come to a stop
+ * @returns The spring value
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useSpringValue = (
+  targetValue: number = 0,
+  tension: number | SpringConfigInput = 50,
+  friction: number = 3,
+  options: UseSpringOptions = {}
+): SpringValue => {
+  const { velocity, launchKey, decay = false } = options;
+  const {
+    friction: decayFriction = DecaySimulation.DEFAULT_FRICTION,
+    min,
+    max,
+  }: DecaySimulationOptions = typeof decay === "object" ? decay : {};
+
+  // Resolve the config to numbers, so that a config object
+  // created on each render doesn't recreate the spring.
+  const springConfig =
+    typeof tension === "number"
+      ? SpringConfig.fromOrigamiTensionAndFriction(tension, friction)
+      : SpringConfig.from(tension);
+  const springTension = springConfig.tension;
+  const springFriction = springConfig.friction;
+
+  const springSystem = useContext(SpringSystemContext)();
+  const reduceMotion = useReducedMotion();
+  const [springValue] = useState(() => new SpringValue(targetValue));
+
+  const targetValueRef = useLatest(targetValue);
+  const velocityRef = useLatest(velocity);
+  const decayRef = useLatest(decay);
+  const reduceMotionRef = useLatest(reduceMotion);
+
+  const isDecay = !!decay;
+
+  useEffect(() => {
+    const newSpringConfig = new SpringConfig(springTension, springFriction);
+    const spring = isDecay
+      ? springSystem
+          .createDecaySimulation(
+            decayRef.current === true ? {} : decayRef.current || undefined
+          )
+          .setSpringConfig(newSpringConfig)
+      : springSystem.createSpringWithConfig(newSpringConfig);
+
+    springValue.attach(spring);
+
+    // A new spring picks up the animation of the previous one
+    if (!reduceMotionRef.current) {
+      springValue.animateTo(targetValueRef.current);
+
+      if (velocityRef.current) {
+        spring.setVelocity(velocityRef.current);
+      }
+    }
+
+    return () => {
+      springValue.detach();
+      spring.destroy();
+    };
+  }, [
+    springSystem,
+    springTension,
+    springFriction,
+    isDecay,
+    springValue,
+    targetValueRef,
+    velocityRef,
+    decayRef,
+    reduceMotionRef,
+  ]);
+
+  useEffect(() => {
+    if (reduceMotion) {
+      springValue.set(targetValue);
+    } else {
+      springValue.animateTo(targetValue);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [targetValue]);
+
+  useEffect(() => {
+    if (velocity && !reduceMotion) {
+      springValue.getSpring()?.setVelocity(velocity);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [velocity, launchKey]);
+
+  useEffect(() => {
+    const spring = springValue.getSpring();
+
+    if (spring instanceof DecaySimulation) {
+      spring.setFriction(decayFriction).setBounds(min, max);
+    }
+  }, [springValue, decayFriction, min, max]);
+
+  return springValue;
+};
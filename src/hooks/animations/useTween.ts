@@ -1,5 +1,5 @@
 import { easing } from "../../logic/easing.ts";
-import type { Easing } from "../../types/logic.ts";
+import type { Easing, EasingFn } from "../../types/logic.ts";
 import { isFunction } from "../../utils/isFunction.ts";
 import { runOnlyIfDevMode } from "../../utils/runOnlyIfDevMode.ts";
 import { warn } from "../../utils/warn.ts";
@@ -10,7 +10,12 @@ import { useRaf } from "./useRaf.ts";
  * React animation hook that tweens a number between `0` and `1`.
  *
  * For more information about easing functions you can use,
- * see: `{@link Easing}`.
+ * see: `{@link Easing}`. A custom easing function can be
+ * passed as well, e.g. one created by `{@link springToEasing}`,
+ * `{@link cubicBezier}` or `{@link parseEasing}`.
+ * When the motion is reduced (see `{@link MotionConfig}`), the tween
+ * jumps to its end once the delay is over. To pause, reverse or seek
+ * the tween, see `{@link useTweenController}`.
  *
  * @example
  * ```tsx
@@ -23,7 +28,7 @@ import { useRaf } from "./useRaf.ts";
  * );
  * ```
  *
- * @param easingName The name of the easing function to use, defined in `{@link Easing}`
+ * @param easingName The name of the easing function to use, defined in `{@link Easing}`, or a custom easing function
  * @param ms The duration of the tween in milliseconds (Defaults to `200`)
  * @param delay The delay before the tween starts in milliseconds (Defaults to `0`)
  * @returns The tween value (between `0` and `1`)
@@ -32,11 +37,11 @@ import { useRaf } from "./useRaf.ts";
  * @since 0.0.1
  */
 export const useTween = (
-  easingFnName: keyof Easing = "inCirc",
+  easingFnName: keyof Easing | EasingFn = "inCirc",
   ms: number = 200,
   delay: number = 0
 ) => {
-  const fn = easing[easingFnName];
+  const fn = isFunction(easingFnName) ? easingFnName : easing[easingFnName];
   const t = useRaf(ms, delay);
 
   runOnlyIfDevMode(() => {
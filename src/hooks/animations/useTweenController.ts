@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef } from "react";
+
+import {
+  cancelFrame,
+  getFrameTime,
+  requestFrame,
+} from "../../logic/animationClock.ts";
+import { easing } from "../../logic/easing.ts";
+import type {
+  TweenDirection,
+  UseTweenControllerOptions,
+  UseTweenControllerReturn,
+} from "../../types/animations.ts";
+import type { Easing, EasingFn } from "../../types/logic.ts";
+import { isFunction } from "../../utils/isFunction.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+import { useReducedMotion } from "./useReducedMotion.ts";
+import { useUpdate } from "./useUpdate.ts";
+
+/**
+ * React animation hook that tweens a number between `0` and `1`, like
+ * `{@link useTween}`, with controls to play, pause, reverse and seek
+ * the tween.
+ *
+ * Returns an object with the following values:
+ * - **`value`** - The eased value of the tween.
+ * - **`progress`** - The progress of the tween, before easing.
+ * - **`isPlaying`** - Whether the tween is playing.
+ * - **`direction`** - The direction the tween plays in, `1` or `-1`.
+ * - **`play()`** - Plays the tween from its progress, or from its start if it ended.
+ * - **`pause()`** - Pauses the tween.
+ * - **`reverse()`** - Plays the tween in the other direction.
+ * - **`seek(progress)`** - Moves the tween to a progress between `0` and `1`.
+ * - **`restart()`** - Plays the tween forward from `0`.
+ *
+ * The component re-renders on each frame while the tween plays. When
+ * the motion is reduced (see `{@link MotionConfig}`), a playing tween
+ * jumps to its end.
+ *
+ * @example
+ * ```tsx
+ * const tween = useTweenController("outCubic", 1000, { loop: true, yoyo: true });
+ *
+ * return (
+ *   <div>
+ *     <div style={{ opacity: tween.value }}>Welcome!</div>
+ *     <button onClick={tween.isPlaying ? tween.pause : tween.play}>
+ *       {tween.isPlaying ? "Pause" : "Play"}
+ *     </button>
+ *     <input
+ *       type="range"
+ *       min={0}
+ *       max={1}
+ *       step={0.01}
+ *       value={tween.progress}
+ *       onChange={e => tween.seek(Number(e.target.value))}
+ *     />
+ *   </div>
+ * );
+ * ```
+ *
+ * @param easingName The name of the easing function to use, defined in `{@link Easing}`, or a custom easing function
+ * @param ms The duration of the tween in milliseconds (Defaults to `200`)
+ * @param options (Optional) The options of the tween
+ * @param options.autoPlay (Optional) Whether to play the tween when the component mounts
+ * @param options.loop (Optional) Whether to play the tween again when it ends, or the number of times to play it again
+ * @param options.yoyo (Optional) Whether a looping tween plays back and forth
+ * @param options.onEnd (Optional) The callback to call when the tween ends
+ * @returns The value of the tween and its controls
+ *
+ * @category Animation
+ * @since 0.0.1
+ */
+export const useTweenController = (
+  easingName: keyof Easing | EasingFn = "inCirc",
+  ms: number = 200,
+  options: UseTweenControllerOptions = {}
+): UseTweenControllerReturn => {
+  const { autoPlay = false } = options;
+
+  const fn = isFunction(easingName) ? easingName : easing[easingName];
+  const update = useUpdate();
+  const reduceMotion = useReducedMotion();
+
+  const progressRef = useRef(0);
+  const directionRef = useRef<TweenDirection>(1);
+  const frameRef = useRef<number | null>(null);
+  const lastTimeRef = useRef(0);
+  const loopsRef = useRef(0);
+
+  const msRef = useLatest(ms);
+  const optionsRef = useLatest(options);
+  const reduceMotionRef = useLatest(reduceMotion);
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  }, []);
+
+  const onFrame = useCallback(() => {
+    const { loop = false, yoyo = false, onEnd } = optionsRef.current;
+    const now = getFrameTime();
+    const direction = directionRef.current;
+    const delta = reduceMotionRef.current
+      ? Infinity
+      : (now - lastTimeRef.current) / Math.max(1, msRef.current);
+    let progress = progressRef.current + direction * delta;
+
+    lastTimeRef.current = now;
+
+    if (progress > 1 || progress < 0) {
+      const end = direction === 1 ? 1 : 0;
+      const canLoop =
+        !reduceMotionRef.current &&
+        (loop === true || loopsRef.current < Number(loop));
+
+      if (!canLoop) {
+        progressRef.current = end;
+        frameRef.current = null;
+        update();
+        onEnd?.();
+        return;
+      }
+
+      loopsRef.current += 1;
+
+      // The time past the end carries over to the next round
+      if (yoyo) {
+        directionRef.current = -direction as TweenDirection;
+        progress = end - (progress - end);
+      } else {
+        progress -= direction;
+      }
+
+      progress = Math.min(1, Math.max(0, progress));
+    }
+
+    progressRef.current = progress;
+    frameRef.current = requestFrame(onFrame);
+    update();
+  }, [msRef, optionsRef, reduceMotionRef, update]);
+
+  const start = useCallback(() => {
+    stop();
+    lastTimeRef.current = getFrameTime();
+    frameRef.current = requestFrame(onFrame);
+    update();
+  }, [stop, onFrame, update]);
+
+  const play = useCallback(() => {
+    // A tween that ended starts over from its start
+    if (progressRef.current === (directionRef.current === 1 ? 1 : 0)) {
+      progressRef.current = 1 - progressRef.current;
+    }
+
+    loopsRef.current = 0;
+    start();
+  }, [start]);
+
+  const pause = useCallback(() => {
+    stop();
+    update();
+  }, [stop, update]);
+
+  const reverse = useCallback(() => {
+    directionRef.current = -directionRef.current as TweenDirection;
+    loopsRef.current = 0;
+    start();
+  }, [start]);
+
+  const seek = useCallback(
+    (progress: number) => {
+      progressRef.current = Math.min(1, Math.max(0, progress));
+      lastTimeRef.current = getFrameTime();
+      update();
+    },
+    [update]
+  );
+
+  const restart = useCallback(() => {
+    progressRef.current = 0;
+    directionRef.current = 1;
+    loopsRef.current = 0;
+    start();
+  }, [start]);
+
+  useEffect(() => {
+    if (autoPlay) {
+      play();
+    }
+
+    return stop;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const progress = progressRef.current;
+
+  return {
+    value: fn(progress),
+    progress,
+    isPlaying: frameRef.current !== null,
+    direction: directionRef.current,
+    play,
+    pause,
+    reverse,
+    seek,
+    restart,
+  };
+};
@@ -1,6 +1,8 @@
 import { useMemo, useRef } from "react";
 
+import { addFrameJob } from "../../logic/animationClock.ts";
 import type { UseRafLoopReturn } from "../../types/effects.ts";
+import type { FrameJobOptions } from "../../types/logic.ts";
 import { useEffectOnce } from "../lifecycles/useEffectOnce.ts";
 
 /**
@@ -36,6 +38,9 @@ import { useEffectOnce } from "../lifecycles/useEffectOnce.ts";
  *
  * @param callback The callback to call within the RAF loop
  * @param initiallyActive Whether the loop should be active initially
+ * @param options (Optional) The options of the frame job running the loop
+ * @param options.phase (Optional) The phase of the frame to call the callback in, `"read"`, `"update"` or `"write"` (Defaults to `"update"`)
+ * @param options.priority (Optional) The priority of the callback within its phase, `"high"`, `"normal"` or `"low"` (Defaults to `"normal"`)
  * @returns A tuple containing the stop loop function, the start loop function and a function to check if the loop is active
  *
  * @category Effect
@@ -43,41 +48,36 @@ import { useEffectOnce } from "../lifecycles/useEffectOnce.ts";
  */
 export const useRafLoop = (
   callback: FrameRequestCallback,
-  initiallyActive = true
+  initiallyActive = true,
+  options: FrameJobOptions = {}
 ): UseRafLoopReturn => {
-  const _raf = useRef<number>();
-  const _active = useRef(false);
+  const _removeJob = useRef<(() => void) | null>(null);
   const _callback = useRef(callback);
+  const _options = useRef(options);
 
   _callback.current = callback;
+  _options.current = options;
 
   const result = useMemo<UseRafLoopReturn>(
     () => [
       // stop
       () => {
-        if (_active.current) {
-          _active.current = false;
-          if (_raf.current) {
-            cancelAnimationFrame(_raf.current);
-          }
+        if (_removeJob.current) {
+          _removeJob.current();
+          _removeJob.current = null;
         }
       },
       // start
       () => {
-        if (!_active.current) {
-          const step: FrameRequestCallback = time => {
-            if (_active.current) {
-              _callback.current(time);
-              _raf.current = requestAnimationFrame(step);
-            }
-          };
-
-          _active.current = true;
-          _raf.current = requestAnimationFrame(step);
+        if (!_removeJob.current) {
+          _removeJob.current = addFrameJob(
+            time => _callback.current(time),
+            _options.current
+          );
         }
       },
       // isActive
-      () => _active.current,
+      () => _removeJob.current !== null,
     ],
     []
   );
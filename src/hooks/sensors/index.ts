@@ -1,4 +1,5 @@
 export * from "./useBattery.ts";
+export * from "./useFrameStats.ts";
 export * from "./useGeolocation.ts";
 export * from "./useHash.ts";
 export * from "./useHover.ts";
@@ -22,6 +23,7 @@ export * from "./useScratch.ts";
 export * from "./useScroll.ts";
 export * from "./useScrollbarWidth.ts";
 export * from "./useScrolling.ts";
+export * from "./useScrollProgress.ts";
 export * from "./useSearchParam.ts";
 export * from "./useSize.ts";
 export * from "./useStartTyping.ts";
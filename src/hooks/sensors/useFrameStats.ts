@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+
+import { FrameStatsTracker } from "../../logic/frameStats.ts";
+import type { FrameStats } from "../../types/logic.ts";
+import type { UseFrameStatsOptions } from "../../types/sensors.ts";
+import { useRafLoop } from "../effects/useRafLoop.ts";
+import { useLatest } from "../states/useLatest.ts";
+
+/**
+ * React sensor hook that measures the frame rate of the page, e.g. to
+ * check that an animated screen holds 60 frames per second.
+ *
+ * Returns the frames per second, the average, longest and percentile
+ * times between two frames over the recent frames, and the number of
+ * dropped and long frames since the measure started. The statistics
+ * are updated every `updateInterval` milliseconds, so that the
+ * component doesn't re-render on every frame.
+ *
+ * The frames are the frames of the animation clock, so that the
+ * statistics can be checked in tests with an `{@link AnimationClock}`,
+ * e.g. `new AnimationClock(50)` to simulate frames of 50 milliseconds.
+ * To show the statistics on top of the page, see
+ * `{@link FrameStatsOverlay}`.
+ *
+ * @example
+ * ```tsx
+ * const { fps, p95, droppedFrames } = useFrameStats({ updateInterval: 1000 });
+ *
+ * return (
+ *   <div>
+ *     {fps.toFixed(0)} fps, p95 {p95.toFixed(1)}ms, {droppedFrames} dropped
+ *   </div>
+ * );
+ * ```
+ *
+ * @param options (Optional) The options of the frame stats
+ * @param options.enabled (Optional) Whether the frames are measured (Defaults to `true`)
+ * @param options.updateInterval (Optional) The time between two updates of the statistics, in milliseconds (Defaults to `500`)
+ * @param options.sampleSize (Optional) The number of recent frames to compute the frame rate and the percentiles over (Defaults to `120`)
+ * @param options.targetFps (Optional) The frame rate to count the dropped frames against (Defaults to `60`)
+ * @param options.longFrameThreshold (Optional) The time between two frames, in milliseconds, above which a frame is a long frame (Defaults to `50`)
+ * @returns The statistics of the frames
+ *
+ * @category Sensor
+ * @since 0.0.1
+ */
+export const useFrameStats = (
+  options: UseFrameStatsOptions = {}
+): FrameStats => {
+  const {
+    enabled = true,
+    updateInterval = 500,
+    sampleSize = FrameStatsTracker.DEFAULT_SAMPLE_SIZE,
+    targetFps = FrameStatsTracker.DEFAULT_TARGET_FPS,
+    longFrameThreshold = FrameStatsTracker.DEFAULT_LONG_FRAME_THRESHOLD,
+  } = options;
+
+  const [tracker] = useState(() => new FrameStatsTracker(options));
+  const [stats, setStats] = useState(() => tracker.getStats());
+
+  const updateIntervalRef = useLatest(updateInterval);
+  const lastUpdateRef = useRef<number | null>(null);
+
+  const [stopLoop, startLoop] = useRafLoop(time => {
+    tracker.addFrame(time);
+
+    if (lastUpdateRef.current === null) {
+      lastUpdateRef.current = time;
+    } else if (time - lastUpdateRef.current >= updateIntervalRef.current) {
+      lastUpdateRef.current = time;
+      setStats(tracker.getStats());
+    }
+  }, false);
+
+  useEffect(() => {
+    tracker.sampleSize = sampleSize;
+    tracker.targetFps = targetFps;
+    tracker.longFrameThreshold = longFrameThreshold;
+  }, [tracker, sampleSize, targetFps, longFrameThreshold]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    // The time the measure was paused doesn't count as dropped frames
+    tracker.reset();
+    lastUpdateRef.current = null;
+    startLoop();
+
+    return () => {
+      stopLoop();
+    };
+  }, [enabled, tracker, startLoop, stopLoop]);
+
+  return stats;
+};
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from "react";
 
+import { cancelFrame, requestFrame } from "../../logic/animationClock.ts";
 import type {
   ScratchState,
   UseScratchOptions,
@@ -86,32 +87,35 @@ export const useScratch = (
 
     const onMoveEvent = (docX: number, docY: number) => {
       if (_animationFrame.current != null) {
-        cancelAnimationFrame(_animationFrame.current);
+        cancelFrame(_animationFrame.current);
       }
 
-      _animationFrame.current = requestAnimationFrame(() => {
-        const { left, top } = el.getBoundingClientRect();
-        const elX = left + window.scrollX;
-        const elY = top + window.scrollY;
-        const x = docX - elX;
-        const y = docY - elY;
-
-        setState(oldState => {
-          const newState = {
-            ...oldState,
-            dx: x - (oldState.x || 0),
-            dy: y - (oldState.y || 0),
-            end: Date.now(),
-            isScratching: true,
-          };
-
-          _state.current = newState;
-
-          (optionsRef.current.onScratch || noop)(newState);
-
-          return newState;
-        });
-      });
+      _animationFrame.current = requestFrame(
+        () => {
+          const { left, top } = el.getBoundingClientRect();
+          const elX = left + window.scrollX;
+          const elY = top + window.scrollY;
+          const x = docX - elX;
+          const y = docY - elY;
+
+          setState(oldState => {
+            const newState = {
+              ...oldState,
+              dx: x - (oldState.x || 0),
+              dy: y - (oldState.y || 0),
+              end: Date.now(),
+              isScratching: true,
+            };
+
+            _state.current = newState;
+
+            (optionsRef.current.onScratch || noop)(newState);
+
+            return newState;
+          });
+        },
+        { phase: "read" }
+      );
     };
 
     const onMouseMove = (event: MouseEvent) => {
@@ -212,7 +216,7 @@ export const useScratch = (
       off(window, "touchend", onTouchEnd);
 
       if (_animationFrame.current) {
-        cancelAnimationFrame(_animationFrame.current);
+        cancelFrame(_animationFrame.current);
       }
 
       _animationFrame.current = null;
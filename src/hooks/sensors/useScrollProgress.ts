@@ -0,0 +1,167 @@
+import { useContext, useEffect } from "react";
+
+import { SpringSystemContext } from "../../components/SpringSystemProvider.tsx";
+import { getScrollProgress } from "../../logic/scroll.ts";
+import { SpringConfig } from "../../logic/springs.ts";
+import type { UseScrollProgressOptions } from "../../types/sensors.ts";
+import { hasWindow } from "../../utils/hasWindow.ts";
+import { off } from "../../utils/off.ts";
+import { on } from "../../utils/on.ts";
+import { warn } from "../../utils/warn.ts";
+import { useReducedMotion } from "../animations/useReducedMotion.ts";
+import { useLatest } from "../states/useLatest.ts";
+import { useRafState } from "../states/useRafState.ts";
+
+/**
+ * React sensor hook that re-renders with the progress of an element
+ * passing through the viewport, between `0` and `1`.
+ *
+ * By default, the progress is `0` when the start of the element enters
+ * the end of the viewport, and `1` when its end leaves the start of
+ * the viewport. The `offset` option sets other intersections, e.g.
+ * `["start end", "start start"]` to reach `1` when the start of the
+ * element reaches the start of the viewport. When the target is
+ * `window`, or the same as the container, the progress is the progress
+ * of scrolling the container from its start to its end.
+ *
+ * The progress is mapped to animatable properties with
+ * `{@link mapProgressToProps}`. With the `smooth` option, it follows
+ * the scroll with a spring, unless the motion is reduced (see
+ * `{@link MotionConfig}`).
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null);
+ * const progress = useScrollProgress(ref, { offset: ["start end", "center center"] });
+ * const pageProgress = useScrollProgress(window, { smooth: "stiff" });
+ *
+ * return (
+ *   <>
+ *     <div style={{ transform: `scaleX(${pageProgress})` }} />
+ *     <div
+ *       ref={ref}
+ *       style={toStyle(
+ *         mapProgressToProps(progress, { opacity: [0, 1], translateY: [40, 0] })
+ *       )}
+ *     >
+ *       Revealed on scroll
+ *     </div>
+ *   </>
+ * );
+ * ```
+ *
+ * @param target The reference to the element passing through the viewport, or `window`
+ * @param options (Optional) The options of the scroll progress
+ * @param options.container (Optional) The scroll container the target scrolls through (Defaults to the window)
+ * @param options.offset (Optional) The intersections of the target and of the viewport that the progress goes from `0` to `1` between
+ * @param options.axis (Optional) The axis to measure the progress along (Defaults to `"y"`)
+ * @param options.smooth (Optional) Whether to smooth the progress with a spring, or the config of the spring (Defaults to `false`)
+ * @returns The scroll progress, between `0` and `1`
+ *
+ * @category Sensor
+ * @since 0.0.1
+ */
+export const useScrollProgress = hasWindow()
+  ? (
+      target:
+        | React.RefObject<HTMLElement | SVGElement | null | undefined>
+        | Window,
+      options: UseScrollProgressOptions = {}
+    ): number => {
+      const { container, offset, axis = "y", smooth = false } = options;
+
+      // Resolve the config to numbers, so that a config object
+      // created on each render doesn't recreate the spring.
+      const springConfig =
+        smooth === false
+          ? null
+          : SpringConfig.from(smooth === true ? "default" : smooth);
+      const springTension = springConfig?.tension;
+      const springFriction = springConfig?.friction;
+
+      const springSystem = useContext(SpringSystemContext)();
+      const reduceMotion = useReducedMotion();
+      const [progress, setProgress] = useRafState(0);
+
+      const offsetRef = useLatest(offset);
+      const reduceMotionRef = useLatest(reduceMotion);
+
+      useEffect(() => {
+        const scrollContainer = container?.current ?? window;
+        const element = "current" in target ? target.current ?? null : null;
+
+        if ("current" in target && !element) {
+          return;
+        }
+
+        const measure = () =>
+          getScrollProgress(element, scrollContainer, offsetRef.current, axis);
+
+        const spring =
+          springTension === undefined || springFriction === undefined
+            ? null
+            : springSystem.createSpringWithConfig(
+                new SpringConfig(springTension, springFriction)
+              );
+
+        if (spring) {
+          // The spring doesn't overshoot, so that the progress stays
+          // between 0 and 1
+          spring.setOvershootClampingEnabled(true);
+          spring.setCurrentValue(measure());
+          spring.addListener({
+            onSpringUpdate: () => setProgress(spring.getCurrentValue()),
+          });
+        }
+
+        const handler = () => {
+          const value = measure();
+
+          if (!spring) {
+            setProgress(value);
+          } else if (reduceMotionRef.current) {
+            spring.setCurrentValue(value);
+          } else {
+            spring.setEndValue(value);
+          }
+        };
+
+        handler();
+
+        on(scrollContainer, "scroll", handler, {
+          capture: false,
+          passive: true,
+        });
+        on(window, "resize", handler);
+
+        return () => {
+          off(scrollContainer, "scroll", handler);
+          off(window, "resize", handler);
+          spring?.destroy();
+        };
+      }, [
+        target,
+        container,
+        axis,
+        springSystem,
+        springTension,
+        springFriction,
+        setProgress,
+        offsetRef,
+        reduceMotionRef,
+      ]);
+
+      return progress;
+    }
+  : (
+      target:
+        | React.RefObject<HTMLElement | SVGElement | null | undefined>
+        | Window,
+      options: UseScrollProgressOptions = {}
+    ): number => {
+      warn("`useScrollProgress` is not supported on server side", {
+        target,
+        options,
+      });
+      return 0;
+    };
@@ -1,5 +1,6 @@
 import { useState } from "react";
 
+import { cancelFrame, requestFrame } from "../../logic/animationClock.ts";
 import { scrollbarWidth } from "../../logic/scrollbarWidth.ts";
 import { isUndefined } from "../../utils/isUndefined.ts";
 import { useEffectOnce } from "../lifecycles/useEffectOnce.ts";
@@ -41,12 +42,15 @@ export const useScrollbarWidth = (): number | undefined => {
       return;
     }
 
-    const raf = requestAnimationFrame(() => {
-      setSbw(scrollbarWidth());
-    });
+    const raf = requestFrame(
+      () => {
+        setSbw(scrollbarWidth());
+      },
+      { phase: "read" }
+    );
 
     return () => {
-      cancelAnimationFrame(raf);
+      cancelFrame(raf);
     };
   });
 
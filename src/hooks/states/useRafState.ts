@@ -1,5 +1,6 @@
 import { useCallback, useRef, useState } from "react";
 
+import { cancelFrame, requestFrame } from "../../logic/animationClock.ts";
 import { resolveHookState } from "../../logic/resolveHookState.ts";
 import type {
   HookStateInitAction,
@@ -55,17 +56,17 @@ export const useRafState = <TState>(
 
   const setRafState = useCallback((newState: HookStateSetAction<TState>) => {
     if (_frame.current) {
-      cancelAnimationFrame(_frame.current);
+      cancelFrame(_frame.current);
     }
 
-    _frame.current = requestAnimationFrame(() => {
+    _frame.current = requestFrame(() => {
       setState(resolveHookState(newState, _state.current));
     });
   }, []);
 
   useOnUnmount(() => {
     if (_frame.current) {
-      cancelAnimationFrame(_frame.current);
+      cancelFrame(_frame.current);
     }
   });
 
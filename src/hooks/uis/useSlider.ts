@@ -1,5 +1,6 @@
 import { useEffect, useRef } from "react";
 
+import { cancelFrame, requestFrame } from "../../logic/animationClock.ts";
 import type { UseSliderOptions, UseSliderReturn } from "../../types/uis.ts";
 import { hasDocument } from "../../utils/hasDocument.ts";
 import { off } from "../../utils/off.ts";
@@ -133,39 +134,42 @@ export const useSlider = hasDocument()
 
         const onScrub = (clientXY: number) => {
           if (_frame.current) {
-            cancelAnimationFrame(_frame.current);
+            cancelFrame(_frame.current);
           }
 
-          _frame.current = requestAnimationFrame(() => {
-            if (!el || !mounted) {
-              return;
-            }
+          _frame.current = requestFrame(
+            () => {
+              if (!el || !mounted) {
+                return;
+              }
 
-            const rect = el.getBoundingClientRect();
-            const pos = options.vertical ? rect.top : rect.left;
-            const length = options.vertical ? rect.height : rect.width;
+              const rect = el.getBoundingClientRect();
+              const pos = options.vertical ? rect.top : rect.left;
+              const length = options.vertical ? rect.height : rect.width;
 
-            // Prevent returning 0 when element is hidden by CSS
-            if (!length) {
-              return;
-            }
+              // Prevent returning 0 when element is hidden by CSS
+              if (!length) {
+                return;
+              }
 
-            let value = (clientXY - pos) / length;
+              let value = (clientXY - pos) / length;
 
-            if (value > 1) {
-              value = 1;
-            } else if (value < 0) {
-              value = 0;
-            }
+              if (value > 1) {
+                value = 1;
+              } else if (value < 0) {
+                value = 0;
+              }
 
-            if (reverse) {
-              value = 1 - value;
-            }
+              if (reverse) {
+                value = 1 - value;
+              }
 
-            setState({ value });
+              setState({ value });
 
-            options.onScrub?.(value);
-          });
+              options.onScrub?.(value);
+            },
+            { phase: "read" }
+          );
         };
 
         on(el, "mousedown", onMouseDown);
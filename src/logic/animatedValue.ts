@@ -0,0 +1,396 @@
+import type {
+  AnimatedValueListener,
+  InterpolationOptions,
+  SpringListener,
+} from "../types/logic.ts";
+
+import type { Spring } from "./springs.ts";
+import { interpolateColor, mapValueInRange } from "./springs.ts";
+
+/**
+ * Interpolate a value from an input range to an output range. The
+ * ranges are split into segments, e.g. the input range `[0, 0.5, 1]`
+ * and the output range `[0, 1, 0]` go up then down. The outputs can
+ * be numbers or colors.
+ *
+ * @example
+ * ```ts
+ * interpolateRange(0.25, [0, 1], [0, 100]); // => 25
+ * interpolateRange(0.5, [0, 1], ["#000000", "#ffffff"]); // => "rgb(127,127,127)"
+ * ```
+ *
+ * @param value The value to interpolate
+ * @param inputRange The increasing values of the input range
+ * @param outputRange The values of the output range, one per value of the input range
+ * @param options (Optional) The options of the interpolation
+ * @param options.clamp (Optional) Whether to clamp the output to the output range
+ * @param options.easing (Optional) The easing function applied within each segment
+ * @param options.colorSpace (Optional) The color space to interpolate colors in
+ * @returns The interpolated value
+ */
+export const interpolateRange = <Output extends number | string>(
+  value: number,
+  inputRange: number[],
+  outputRange: Output[],
+  options: InterpolationOptions = {}
+): Output => {
+  const { clamp = false, easing, colorSpace = "srgb" } = options;
+
+  if (inputRange.length < 2 || inputRange.length !== outputRange.length) {
+    throw new Error(
+      "Expected an input range and an output range of the same length, with at least two values"
+    );
+  }
+
+  let i = 0;
+
+  while (i < inputRange.length - 2 && value > (inputRange[i + 1] as number)) {
+    i++;
+  }
+
+  const inputLow = inputRange[i] as number;
+  const inputHigh = inputRange[i + 1] as number;
+  const outputLow = outputRange[i] as Output;
+  const outputHigh = outputRange[i + 1] as Output;
+
+  let progress =
+    inputHigh === inputLow ? 1 : (value - inputLow) / (inputHigh - inputLow);
+
+  if (clamp) {
+    progress = Math.min(1, Math.max(0, progress));
+  }
+
+  if (easing) {
+    progress = easing(progress);
+  }
+
+  if (typeof outputLow === "string" || typeof outputHigh === "string") {
+    return interpolateColor(
+      progress,
+      String(outputLow),
+      String(outputHigh),
+      0,
+      1,
+      true,
+      colorSpace
+    ) as Output;
+  }
+
+  return mapValueInRange(progress, 0, 1, outputLow, outputHigh) as Output;
+};
+
+/**
+ * A value that changes over time without re-rendering the components
+ * that use it. Its changes are observed with `subscribe`, e.g. to
+ * write them to the DOM (see `{@link useAnimatedStyle}` and
+ * `{@link useAnimatedText}`).
+ *
+ * Derived values are created with `to` and `interpolate`, and follow
+ * the changes of the value they are derived from. They only listen to
+ * that value while they have listeners of their own, so they can be
+ * created while rendering.
+ *
+ * **Methods**
+ * - `get` - Get the current value
+ * - `set` - Set the current value and notify the listeners
+ * - `subscribe` - Listen to the changes of the value
+ * - `to` - Derive a value with a mapping function
+ * - `interpolate` - Derive a value by interpolating between ranges
+ */
+export class AnimatedValue<T = number> {
+  /**
+   * The current value.
+   */
+  private _value: T;
+  /**
+   * The listeners of the changes of the value.
+   */
+  private _listeners: Set<AnimatedValueListener<T>> = new Set();
+
+  /**
+   * @constructor
+   * @param value The initial value
+   */
+  constructor(value: T) {
+    this._value = value;
+  }
+
+  /**
+   * Get the current value.
+   *
+   * @returns The current value
+   */
+  get(): T {
+    return this._value;
+  }
+
+  /**
+   * Set the current value and notify the listeners, if the value
+   * changed.
+   *
+   * @param value The new value
+   */
+  set(value: T): void {
+    this.update(value);
+  }
+
+  /**
+   * Listen to the changes of the value. The listener is not called
+   * with the current value.
+   *
+   * @param listener The listener to call with the new value
+   * @returns A function to stop listening
+   */
+  subscribe(listener: AnimatedValueListener<T>): () => void {
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Derive a value with a mapping function.
+   *
+   * @example
+   * ```ts
+   * const x = new AnimatedValue(0);
+   * const label = x.to(v => `${Math.round(v)}px`);
+   * ```
+   *
+   * @param map The function mapping this value to the derived value
+   * @returns The derived value
+   */
+  to<U>(map: (value: T) => U): AnimatedValue<U> {
+    return new DerivedValue(this, map);
+  }
+
+  /**
+   * Derive a value by interpolating this value from an input range to
+   * an output range of numbers or colors (see `{@link interpolateRange}`).
+   *
+   * @example
+   * ```ts
+   * const progress = new AnimatedValue(0);
+   * const opacity = progress.interpolate([0, 0.5, 1], [0, 1, 0]);
+   * const color = progress.interpolate([0, 1], ["#ff0000", "#0000ff"], {
+   *   colorSpace: "oklab",
+   * });
+   * ```
+   *
+   * @param inputRange The increasing values of the input range
+   * @param outputRange The values of the output range, one per value of the input range
+   * @param options (Optional) The options of the interpolation
+   * @returns The derived value
+   */
+  interpolate<Output extends number | string>(
+    this: AnimatedValue<number>,
+    inputRange: number[],
+    outputRange: Output[],
+    options?: InterpolationOptions
+  ): AnimatedValue<Output> {
+    return this.to(value =>
+      interpolateRange(value, inputRange, outputRange, options)
+    );
+  }
+
+  /**
+   * Store a new value and notify the listeners, if the value changed.
+   *
+   * @param value The new value
+   */
+  protected update(value: T): void {
+    if (Object.is(this._value, value)) {
+      return;
+    }
+
+    this._value = value;
+
+    for (const listener of this._listeners) {
+      listener(value);
+    }
+  }
+}
+
+/**
+ * An animated value driven by a `{@link Spring}`. The value follows
+ * the current value of the spring once the spring is attached, and
+ * is stored on its own until then. See `{@link useSpringValue}`.
+ *
+ * **Methods**
+ * - `attach` - Drive the value with a spring
+ * - `detach` - Stop driving the value with the attached spring
+ * - `getSpring` - Get the attached spring
+ * - `set` - Jump to a value, without animating
+ * - `animateTo` - Animate to a value with the spring
+ * - `getVelocity` - Get the velocity of the spring
+ * - `isAnimating` - Check if the spring is animating
+ */
+export class SpringValue extends AnimatedValue<number> {
+  /**
+   * The spring driving the value.
+   */
+  private _spring: Spring | null = null;
+  /**
+   * The listener of the spring driving the value.
+   */
+  private _springListener: SpringListener = {
+    onSpringUpdate: spring => this.update(spring.getCurrentValue()),
+  };
+
+  /**
+   * Drive the value with a spring. The spring starts from the current
+   * value.
+   *
+   * @param spring The spring to drive the value with
+   */
+  attach(spring: Spring): void {
+    this.detach();
+    this._spring = spring;
+    spring.setCurrentValue(this.get());
+    spring.addListener(this._springListener);
+  }
+
+  /**
+   * Stop driving the value with the attached spring. The value keeps
+   * the current value of the spring.
+   */
+  detach(): void {
+    this._spring?.removeListener(this._springListener);
+    this._spring = null;
+  }
+
+  /**
+   * Get the attached spring.
+   *
+   * @returns The attached spring, or `null` if no spring is attached
+   */
+  getSpring(): Spring | null {
+    return this._spring;
+  }
+
+  /**
+   * Jump to a value, without animating.
+   *
+   * @param value The new value
+   */
+  set(value: number): void {
+    if (this._spring) {
+      this._spring.setCurrentValue(value);
+    } else {
+      this.update(value);
+    }
+  }
+
+  /**
+   * Animate to a value with the spring. The value jumps to it if no
+   * spring is attached.
+   *
+   * @param value The value to animate to
+   */
+  animateTo(value: number): void {
+    if (this._spring) {
+      this._spring.setEndValue(value);
+    } else {
+      this.update(value);
+    }
+  }
+
+  /**
+   * Get the velocity of the spring, in units per second.
+   *
+   * @returns The velocity of the spring, or `0` if no spring is attached
+   */
+  getVelocity(): number {
+    return this._spring?.getVelocity() ?? 0;
+  }
+
+  /**
+   * Check if the spring is animating.
+   *
+   * @returns Whether the spring is animating
+   */
+  isAnimating(): boolean {
+    return !!this._spring && !this._spring.isAtRest();
+  }
+}
+
+/**
+ * An animated value derived from another animated value with a
+ * mapping function, see `{@link AnimatedValue.to}`.
+ */
+class DerivedValue<S, T> extends AnimatedValue<T> {
+  /**
+   * The value this value is derived from.
+   */
+  private _source: AnimatedValue<S>;
+  /**
+   * The function mapping the source value to this value.
+   */
+  private _map: (value: S) => T;
+  /**
+   * The number of listeners of this value.
+   */
+  private _listenerCount: number = 0;
+  /**
+   * Stop listening to the source value.
+   */
+  private _unsubscribeSource: (() => void) | null = null;
+
+  /**
+   * @constructor
+   * @param source The value to derive from
+   * @param map The function mapping the source value to this value
+   */
+  constructor(source: AnimatedValue<S>, map: (value: S) => T) {
+    super(map(source.get()));
+    this._source = source;
+    this._map = map;
+  }
+
+  /**
+   * Get the current value, mapped from the current source value.
+   *
+   * @returns The current value
+   */
+  get(): T {
+    if (!this._unsubscribeSource) {
+      this.update(this._map(this._source.get()));
+    }
+
+    return super.get();
+  }
+
+  /**
+   * Listen to the changes of the value. The source value is listened
+   * to while this value has listeners.
+   *
+   * @param listener The listener to call with the new value
+   * @returns A function to stop listening
+   */
+  subscribe(listener: AnimatedValueListener<T>): () => void {
+    const unsubscribe = super.subscribe(listener);
+    let subscribed = true;
+
+    if (this._listenerCount++ === 0) {
+      this.update(this._map(this._source.get()));
+      this._unsubscribeSource = this._source.subscribe(value =>
+        this.update(this._map(value))
+      );
+    }
+
+    return () => {
+      if (!subscribed) {
+        return;
+      }
+
+      subscribed = false;
+      unsubscribe();
+
+      if (--this._listenerCount === 0) {
+        this._unsubscribeSource?.();
+        this._unsubscribeSource = null;
+      }
+    };
+  }
+}
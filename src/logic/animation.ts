@@ -1,12 +1,40 @@
+import type { SpringForAnimatableProp } from "../types/animations.ts";
 import type {
+  AnimatableCustomProperties,
+  AnimatableFilterProperties,
+  AnimatableLength,
   AnimatableNumericalProperties,
   AnimatableProps,
   AnimatableTransformProperties,
+  BoxShadowList,
+  BoxShadowTuple,
+  ClipCircleTuple,
+  ClipInsetTuple,
+  ColorSpace,
+  ColorTuple,
+  CSSUnit,
+  DecaySimulationOptions,
+  ProgressRanges,
+  TransformMatrix,
+  TransformOptions,
+  TransformOrigin,
+  TransformStep,
+  UnitValue,
+  ViewBoxTuple,
 } from "../types/logic.ts";
 import { isNullOrUndefined } from "../utils/isNullOrUndefined.ts";
 import { isUndefined } from "../utils/isUndefined.ts";
 import { warn } from "../utils/warn.ts";
 
+import type { Spring, SpringConfig, SpringSystem } from "./springs.ts";
+import {
+  ColorSpring,
+  hexToRGB,
+  interpolateColor,
+  mapValueInRange,
+  MultiSpring,
+} from "./springs.ts";
+
 /**
  * Creates a CSS function with the given name and parameters.
  *
@@ -15,12 +43,12 @@ import { warn } from "../utils/warn.ts";
  * @returns A function that returns the CSS function with the given parameters
  */
 const cssFunction =
-  <Values extends (number | string)[]>(
+  <Values extends (number | string | UnitValue)[]>(
     name: string,
     ...params: { [Value in keyof Values]: (k: Values[Value]) => string }
   ) =>
   (...values: Values) =>
-    `${name}(${params.map((p, i) => p(values[i] as string | number))})`;
+    `${name}(${params.map((p, i) => p(values[i] as never))})`;
 
 /**
  * Converts a number to pixels.
@@ -30,6 +58,21 @@ const cssFunction =
  */
 const px = (n: number) => `${n ?? 0}px`;
 
+/**
+ * Converts a length to a CSS value. Numbers are in pixels, and
+ * strings are passed through as is.
+ *
+ * @param l The length to convert
+ * @returns The length as a string with its unit appended
+ */
+const length = (l: AnimatableLength) => {
+  if (typeof l === "number") {
+    return px(l);
+  }
+
+  return typeof l === "string" ? l : `${l.value ?? 0}${l.unit}`;
+};
+
 /**
  * Converts a number to alpha.
  *
@@ -46,6 +89,14 @@ const alpha = (x: number) => `${x < 0 ? 0 : x > 1 ? 1 : x}`;
  */
 const ratio = (n: number) => `${n}`;
 
+/**
+ * Converts a number to a percentage.
+ *
+ * @param n The number to convert to a percentage
+ * @returns The number as a string with "%" appended
+ */
+const percent = (n: number) => `${n ?? 0}%`;
+
 /**
  * Converts a number to degrees.
  *
@@ -98,30 +149,57 @@ const rgba = cssFunction<[r: number, g: number, b: number, a: number]>(
 /**
  * Wraps the translate CSS function.
  */
-const translate = cssFunction("translate", px, px);
+const translate = cssFunction("translate", length, length);
 /**
  * Wraps the translate3d CSS function.
  */
-const translate3d = cssFunction("translate3d", px, px, px);
+const translate3d = cssFunction("translate3d", length, length, length);
 /**
  * Wraps the scale CSS function.
  */
 const scale = cssFunction("scale", ratio, ratio);
 /**
- * Wraps the rotate CSS function.
+ * Wraps the scaleZ CSS function.
+ */
+const scaleZ = cssFunction("scaleZ", ratio);
+/**
+ * Wraps the rotateX CSS function.
+ */
+const rotateX = cssFunction("rotateX", deg);
+/**
+ * Wraps the rotateY CSS function.
  */
-const rotate = cssFunction("rotate", deg, deg);
+const rotateY = cssFunction("rotateY", deg);
 /**
  * Wraps the rotateZ CSS function.
  */
 const rotateZ = cssFunction("rotateZ", deg);
+/**
+ * Wraps the rotate3d CSS function.
+ */
+const rotate3d = cssFunction("rotate3d", ratio, ratio, ratio, deg);
 /**
  * Wraps the skew CSS function.
  */
 const skew = cssFunction("skew", deg, deg);
+/**
+ * Wraps the perspective CSS function.
+ */
+const perspective = cssFunction("perspective", length);
 
 /**
- * Converts a tuple of numbers to a color.
+ * Converts a list of numbers to a transform matrix, with `matrix()`
+ * for 6 numbers and `matrix3d()` for 16 numbers.
+ *
+ * @param values The numbers of the matrix
+ * @returns The matrix as a string
+ */
+const matrix = (values: TransformMatrix) =>
+  `${values.length === 16 ? "matrix3d" : "matrix"}(${values.map(ratio)})`;
+
+/**
+ * Converts a tuple of numbers to a color. Color strings are
+ * passed through as is.
  *
  * @param r The red component
  * @param g The green component
@@ -129,21 +207,114 @@ const skew = cssFunction("skew", deg, deg);
  * @param a (Optional) The alpha component
  * @returns The color as a string
  */
-function color([r, g, b]: [r: number, g: number, b: number]): string;
-function color([r, g, b, a]: [r: number, g: number, b: number, a?: number]) {
+function color(value: ColorTuple | string): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  const [r, g, b, a] = value;
   return typeof a === "undefined" ? rgb(r, g, b) : rgba(r, g, b, a);
 }
 
+/**
+ * Converts a tuple of numbers to a box shadow, or a list of the 9
+ * numbers of each shadow to several box shadows. An inset flag above
+ * `0.5` makes an inset shadow. Box shadow strings are passed through
+ * as is.
+ *
+ * @param value The box shadow tuple `[x, y, blur, spread, r, g, b, a?, inset?]`, the list of box shadows, or the box shadow string
+ * @returns The box shadow as a string
+ */
+const boxShadow = (value: BoxShadowTuple | BoxShadowList | string): string => {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (value.length === 7 || value.length === 8) {
+    const [x, y, blur, spread, r, g, b, a] = value as BoxShadowTuple;
+    return `${px(x)} ${px(y)} ${px(blur)} ${px(spread)} ${color(
+      typeof a === "undefined" ? [r, g, b] : [r, g, b, a]
+    )}`;
+  }
+
+  const shadows: string[] = [];
+
+  for (let i = 0; i < value.length; i += 9) {
+    const [x = 0, y = 0, blur = 0, spread = 0, r = 0, g = 0, b = 0, a = 1] =
+      value.slice(i, i + 9);
+    const inset = (value[i + 8] ?? 0) > 0.5 ? "inset " : "";
+
+    shadows.push(
+      `${inset}${px(x)} ${px(y)} ${px(blur)} ${px(spread)} ${color([r, g, b, a])}`
+    );
+  }
+
+  return shadows.length > 0 ? shadows.join(", ") : "none";
+};
+
+/**
+ * Converts a tuple of percentages to an `inset()` clip path. Clip path
+ * strings are passed through as is.
+ *
+ * @param top The inset from the top edge in percents
+ * @param right The inset from the right edge in percents
+ * @param bottom The inset from the bottom edge in percents
+ * @param left The inset from the left edge in percents
+ * @returns The clip path as a string
+ */
+const clipInset = (value: ClipInsetTuple | string): string =>
+  typeof value === "string"
+    ? value
+    : `inset(${value.map(n => percent(n)).join(" ")})`;
+
+/**
+ * Converts a tuple of percentages to a `circle()` clip path. Clip path
+ * strings are passed through as is.
+ *
+ * @param radius The radius of the circle in percents
+ * @param x The horizontal position of the center in percents
+ * @param y The vertical position of the center in percents
+ * @returns The clip path as a string
+ */
+const clipCircle = (value: ClipCircleTuple | string): string => {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  const [radius, x, y] = value;
+  return `circle(${percent(radius)} at ${percent(x)} ${percent(y)})`;
+};
+
+/**
+ * Converts a number, a length or a color to the value of a CSS custom
+ * property. Numbers are written without a unit, so that they can be
+ * used in `calc()` expressions, e.g. `calc(var(--progress) * 1%)`.
+ *
+ * @param value The number, length or color to convert
+ * @returns The value of the custom property
+ */
+const customProperty = (
+  value: number | UnitValue | ColorTuple | string
+): string => {
+  if (typeof value === "number") {
+    return `${value}`;
+  }
+
+  return typeof value === "object" && "unit" in value
+    ? length(value)
+    : color(value);
+};
+
 /**
  * The animatable numerical properties.
  */
 export const numericalProperties = {
-  top: px,
-  left: px,
-  right: px,
-  bottom: px,
-  width: px,
-  height: px,
+  top: length,
+  left: length,
+  right: length,
+  bottom: length,
+  width: length,
+  height: length,
   opacity: alpha,
   color,
   background: color,
@@ -155,9 +326,134 @@ export const numericalProperties = {
   borderTopColor: color,
   outlineColor: color,
   textDecorationColor: color,
-  fontSize: px,
-  lineHeight: px,
-  letterSpacing: px,
+  fontSize: length,
+  lineHeight: length,
+  letterSpacing: length,
+  margin: length,
+  marginTop: length,
+  marginRight: length,
+  marginBottom: length,
+  marginLeft: length,
+  padding: length,
+  paddingTop: length,
+  paddingRight: length,
+  paddingBottom: length,
+  paddingLeft: length,
+  borderRadius: length,
+  borderTopLeftRadius: length,
+  borderTopRightRadius: length,
+  borderBottomRightRadius: length,
+  borderBottomLeftRadius: length,
+  borderWidth: length,
+  outlineWidth: length,
+  strokeDashoffset: ratio,
+  strokeWidth: ratio,
+  boxShadow,
+  clipInset,
+  clipCircle,
+};
+
+/**
+ * The CSS properties written by the animatable numerical properties
+ * whose name is not a CSS property.
+ */
+const styleProperties: Partial<
+  Record<keyof AnimatableNumericalProperties, keyof React.CSSProperties>
+> = {
+  clipInset: "clipPath",
+  clipCircle: "clipPath",
+};
+
+/**
+ * The animatable filter properties, composed into the `filter` property.
+ */
+export const filterProperties = {
+  blur: cssFunction("blur", px),
+  brightness: cssFunction("brightness", ratio),
+  contrast: cssFunction("contrast", ratio),
+  grayscale: cssFunction("grayscale", ratio),
+  hueRotate: cssFunction("hue-rotate", deg),
+  invert: cssFunction("invert", ratio),
+  saturate: cssFunction("saturate", ratio),
+  sepia: cssFunction("sepia", ratio),
+};
+
+/**
+ * Converts a tuple of numbers to an SVG `viewBox`. View box strings
+ * are passed through as is.
+ *
+ * @param value The view box, as `[minX, minY, width, height]`
+ * @returns The view box as a string
+ */
+const viewBox = (value: ViewBoxTuple | string): string =>
+  typeof value === "string" ? value : value.join(" ");
+
+/**
+ * Converts a list of coordinates to the `points` of an SVG polygon or
+ * polyline. Points strings are passed through as is.
+ *
+ * @param value The coordinates, as `[x1, y1, x2, y2, ...]`
+ * @returns The points as a string
+ */
+const points = (value: number[] | string): string => {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  const pairs: string[] = [];
+
+  for (let i = 0; i < value.length; i += 2) {
+    pairs.push(`${value[i]},${value[i + 1] ?? 0}`);
+  }
+
+  return pairs.join(" ");
+};
+
+/**
+ * The animatable SVG attributes, written with `setAttribute` on SVG
+ * elements instead of to their style.
+ */
+export const svgAttributes = {
+  cx: ratio,
+  cy: ratio,
+  r: ratio,
+  rx: ratio,
+  ry: ratio,
+  x: ratio,
+  y: ratio,
+  x1: ratio,
+  y1: ratio,
+  x2: ratio,
+  y2: ratio,
+  pathLength: ratio,
+  viewBox,
+  points,
+};
+
+/**
+ * Check if a property is a CSS custom property, e.g. `--brand-color`.
+ *
+ * @param prop The property to check
+ * @returns Whether the property is a CSS custom property
+ */
+export const isCustomProperty = (
+  prop: string
+): prop is keyof AnimatableCustomProperties => prop.startsWith("--");
+
+/**
+ * The animatable color properties.
+ */
+export const colorProperties = {
+  color: true,
+  background: true,
+  backgroundColor: true,
+  borderBottomColor: true,
+  borderColor: true,
+  borderLeftColor: true,
+  borderRightColor: true,
+  borderTopColor: true,
+  outlineColor: true,
+  textDecorationColor: true,
 };
 
 /**
@@ -169,15 +465,36 @@ export const transformProperties = {
   translateZ: true,
   scaleX: true,
   scaleY: true,
+  scaleZ: true,
   rotateX: true,
   rotateY: true,
   rotateZ: true,
+  rotate3d: true,
   skewX: true,
   skewY: true,
+  perspective: true,
+  matrix: true,
 };
 
 /**
- * Converts the animatable transform properties to a style object.
+ * The default order of the transform functions, from the outermost
+ * to the innermost.
+ */
+export const defaultTransformOrder: TransformStep[] = [
+  "translate",
+  "scale",
+  "rotate",
+  "rotate3d",
+  "skew",
+  "matrix",
+];
+
+/**
+ * Converts the animatable transform properties to a `transform` value.
+ *
+ * The `perspective` always comes first, so that it applies to every
+ * other transform function. The rest of the functions are composed in
+ * `order`, and the steps missing from it follow in the default order.
  *
  * @param props The properties to convert
  * @param props.translateX (Optional) The x translation
@@ -185,47 +502,92 @@ export const transformProperties = {
  * @param props.translateZ (Optional) The z translation
  * @param props.scaleX (Optional) The x scale
  * @param props.scaleY (Optional) The y scale
+ * @param props.scaleZ (Optional) The z scale
  * @param props.rotateX (Optional) The x rotation
  * @param props.rotateY (Optional) The y rotation
  * @param props.rotateZ (Optional) The z rotation
+ * @param props.rotate3d (Optional) The rotation around an axis, as `[x, y, z, angle]`
  * @param props.skewX (Optional) The x skew
  * @param props.skewY (Optional) The y skew
- * @returns The style object
- */
-const toTransformStyle = ({
-  translateX: tx,
-  translateY: ty,
-  translateZ: tz,
-  scaleX: sx,
-  scaleY: sy,
-  rotateX: rx,
-  rotateY: ry,
-  rotateZ: rz,
-  skewX: kx,
-  skewY: ky,
-}: Partial<AnimatableTransformProperties>) => {
+ * @param props.perspective (Optional) The perspective distance
+ * @param props.matrix (Optional) The transform matrix, as 6 or 16 numbers
+ * @param order (Optional) The order of the transform functions
+ * @returns The transform value
+ */
+const toTransformStyle = (
+  {
+    translateX: tx,
+    translateY: ty,
+    translateZ: tz,
+    scaleX: sx,
+    scaleY: sy,
+    scaleZ: sz,
+    rotateX: rx,
+    rotateY: ry,
+    rotateZ: rz,
+    rotate3d: r3d,
+    skewX: kx,
+    skewY: ky,
+    perspective: p,
+    matrix: m,
+  }: Partial<AnimatableTransformProperties>,
+  order: TransformStep[] = defaultTransformOrder
+) => {
   const transforms: string[] = [];
 
-  if (!isUndefined(tz)) {
-    transforms.push(translate3d(tx ?? 0, ty ?? 0, tz ?? 0));
-  } else if (!isUndefined(tx) || !isUndefined(ty)) {
-    transforms.push(translate(tx ?? 0, ty ?? 0));
+  if (!isUndefined(p)) {
+    transforms.push(perspective(p));
   }
 
-  if (!isUndefined(sx) || !isUndefined(sy)) {
-    transforms.push(scale(sx ?? 1, sy ?? 1));
-  }
+  const steps: Record<TransformStep, () => void> = {
+    translate: () => {
+      if (!isUndefined(tz)) {
+        transforms.push(translate3d(tx ?? 0, ty ?? 0, tz ?? 0));
+      } else if (!isUndefined(tx) || !isUndefined(ty)) {
+        transforms.push(translate(tx ?? 0, ty ?? 0));
+      }
+    },
+    scale: () => {
+      if (!isUndefined(sx) || !isUndefined(sy)) {
+        transforms.push(scale(sx ?? 1, sy ?? 1));
+      }
 
-  if (!isUndefined(rx) || !isUndefined(ry)) {
-    transforms.push(rotate(rx ?? 0, ry ?? 0));
-  }
+      if (!isUndefined(sz)) {
+        transforms.push(scaleZ(sz));
+      }
+    },
+    rotate: () => {
+      if (!isUndefined(rx)) {
+        transforms.push(rotateX(rx));
+      }
 
-  if (!isUndefined(rz)) {
-    transforms.push(rotateZ(rz || 0));
-  }
+      if (!isUndefined(ry)) {
+        transforms.push(rotateY(ry));
+      }
+
+      if (!isUndefined(rz)) {
+        transforms.push(rotateZ(rz || 0));
+      }
+    },
+    rotate3d: () => {
+      if (!isUndefined(r3d)) {
+        transforms.push(rotate3d(...r3d));
+      }
+    },
+    skew: () => {
+      if (!isUndefined(kx) || !isUndefined(ky)) {
+        transforms.push(skew(kx ?? 0, ky ?? 0));
+      }
+    },
+    matrix: () => {
+      if (!isUndefined(m)) {
+        transforms.push(matrix(m));
+      }
+    },
+  };
 
-  if (!isUndefined(kx) || !isUndefined(ky)) {
-    transforms.push(skew(kx ?? 0, ky ?? 0));
+  for (const step of new Set([...order, ...defaultTransformOrder])) {
+    steps[step]();
   }
 
   if (transforms.length === 0) {
@@ -235,6 +597,16 @@ const toTransformStyle = ({
   return transforms.join(" ");
 };
 
+/**
+ * Converts a transform origin to a CSS value. Strings are passed
+ * through as is.
+ *
+ * @param origin The transform origin to convert
+ * @returns The transform origin as a string
+ */
+const transformOrigin = (origin: TransformOrigin) =>
+  typeof origin === "string" ? origin : origin.map(length).join(" ");
+
 /**
  * Converts the animatable properties to a CSS style object.
  *
@@ -259,6 +631,25 @@ const toTransformStyle = ({
  * @param props.fontSize (Optional) The font size
  * @param props.lineHeight (Optional) The line height
  * @param props.letterSpacing (Optional) The letter spacing
+ * @param props.margin (Optional) The margin, and `marginTop`, `marginRight`, ... for each side
+ * @param props.padding (Optional) The padding, and `paddingTop`, `paddingRight`, ... for each side
+ * @param props.borderRadius (Optional) The border radius, and `borderTopLeftRadius`, ... for each corner
+ * @param props.borderWidth (Optional) The border width
+ * @param props.outlineWidth (Optional) The outline width
+ * @param props.strokeDashoffset (Optional) The SVG stroke dash offset
+ * @param props.strokeWidth (Optional) The SVG stroke width
+ * @param props.boxShadow (Optional) The box shadow, as `[x, y, blur, spread, r, g, b, a?, inset?]`, or the 9 numbers of each of several shadows
+ * @param props.clipInset (Optional) The `inset()` clip path, as `[top, right, bottom, left]` percentages
+ * @param props.clipCircle (Optional) The `circle()` clip path, as `[radius, x, y]` percentages
+ * @param props.blur (Optional) The blur filter, in pixels
+ * @param props.brightness (Optional) The brightness filter
+ * @param props.contrast (Optional) The contrast filter
+ * @param props.grayscale (Optional) The grayscale filter
+ * @param props.hueRotate (Optional) The hue rotation filter, in degrees
+ * @param props.invert (Optional) The invert filter
+ * @param props.saturate (Optional) The saturate filter
+ * @param props.sepia (Optional) The sepia filter
+ * @param props.[--custom-property] (Optional) Any CSS custom property, as a number or a color
  * @param props.translateX (Optional) The x translation
  * @param props.translateY (Optional) The y translation
  * @param props.translateZ (Optional) The z translation
@@ -269,12 +660,21 @@ const toTransformStyle = ({
  * @param props.rotateZ (Optional) The z rotation
  * @param props.skewX (Optional) The x skew
  * @param props.skewY (Optional) The y skew
+ * @param props.scaleZ (Optional) The z scale
+ * @param props.rotate3d (Optional) The rotation around an axis, as `[x, y, z, angle]`
+ * @param props.perspective (Optional) The perspective distance
+ * @param props.matrix (Optional) The transform matrix, as 6 or 16 numbers
+ * @param options (Optional) The options of the transform
+ * @param options.transformOrder (Optional) The order of the transform functions (Defaults to `{@link defaultTransformOrder}`)
+ * @param options.transformOrigin (Optional) The origin of the transform
  * @returns The CSS style object.
  */
 export const toStyle = (
-  props: Partial<AnimatableProps>
+  props: Partial<AnimatableProps>,
+  options: TransformOptions = {}
 ): Partial<React.CSSProperties> => {
   const transformProps: Partial<AnimatableTransformProperties> = {};
+  const filters: string[] = [];
   const style: Partial<React.CSSProperties> = {};
 
   for (const p in props) {
@@ -286,15 +686,746 @@ export const toStyle = (
 
     if (p in transformProperties) {
       const prop = p as keyof AnimatableTransformProperties;
-      transformProps[prop] = val as number;
+      // @ts-expect-error: TS doesn't like the complexity of this type.
+      transformProps[prop] = val;
     } else if (p in numericalProperties) {
       const prop = p as keyof AnimatableNumericalProperties;
       // @ts-expect-error: TS doesn't like the complexity of this type.
-      style[prop as keyof typeof style] = numericalProperties[prop](val as any);
+      style[styleProperties[prop] ?? prop] = numericalProperties[prop](
+        val as any
+      );
+    } else if (p in filterProperties) {
+      const prop = p as keyof AnimatableFilterProperties;
+      filters.push(filterProperties[prop](val as number));
+    } else if (isCustomProperty(p)) {
+      (style as Record<string, string>)[p] = customProperty(
+        val as number | UnitValue | ColorTuple | string
+      );
+    } else if (p in svgAttributes) {
+      // Written by `toSVGAttributes`
+      continue;
     } else {
       warn(`Unsuppored prop: ${p}`);
     }
   }
 
-  return { ...style, transform: toTransformStyle(transformProps) };
+  if (filters.length > 0) {
+    style.filter = filters.join(" ");
+  }
+
+  if (options.transformOrigin) {
+    style.transformOrigin = transformOrigin(options.transformOrigin);
+  }
+
+  // Without transform props, e.g. for the attributes of an SVG element,
+  // the transform attribute of the element is kept
+  if (Object.keys(transformProps).length > 0) {
+    style.transform = toTransformStyle(transformProps, options.transformOrder);
+  }
+
+  return style;
+};
+
+/**
+ * Converts the animatable SVG attributes of a set of properties to the
+ * attributes to set on an SVG element. The other properties are
+ * ignored, see `{@link toStyle}`.
+ *
+ * @example
+ * ```ts
+ * toSVGAttributes({ cx: 50, viewBox: [0, 0, 100, 100], opacity: 1 });
+ * // => { cx: "50", viewBox: "0 0 100 100" }
+ * ```
+ *
+ * @param props The properties to convert
+ * @param props.cx (Optional) The x of the center of a circle or an ellipse
+ * @param props.cy (Optional) The y of the center of a circle or an ellipse
+ * @param props.r (Optional) The radius of a circle
+ * @param props.rx (Optional) The x radius of an ellipse or of the corners of a rect
+ * @param props.ry (Optional) The y radius of an ellipse or of the corners of a rect
+ * @param props.x (Optional) The x of a rect, an image, a text or a use
+ * @param props.y (Optional) The y of a rect, an image, a text or a use
+ * @param props.x1 (Optional) The x of the start of a line
+ * @param props.y1 (Optional) The y of the start of a line
+ * @param props.x2 (Optional) The x of the end of a line
+ * @param props.y2 (Optional) The y of the end of a line
+ * @param props.pathLength (Optional) The length of a path, for its dash offsets
+ * @param props.viewBox (Optional) The view box of an svg, as `[minX, minY, width, height]`
+ * @param props.points (Optional) The points of a polygon or a polyline, as `[x1, y1, x2, y2, ...]`
+ * @returns The SVG attributes
+ */
+export const toSVGAttributes = (
+  props: Partial<AnimatableProps>
+): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+
+  for (const p in props) {
+    const val = props[p as keyof typeof props];
+
+    if (p in svgAttributes && !isNullOrUndefined(val)) {
+      const prop = p as keyof typeof svgAttributes;
+      attributes[prop] = svgAttributes[prop](val as never);
+    }
+  }
+
+  return attributes;
+};
+
+/**
+ * Parses the numbers of a CSS value, e.g. `"inset(10% 0 0 5%)"`.
+ *
+ * @param value The CSS value to parse
+ * @returns The numbers of the value
+ */
+const parseNumbers = (value: string): number[] =>
+  (value.match(/-?\d*\.?\d+(e[-+]?\d+)?/gi) ?? []).map(Number);
+
+/**
+ * Parses a string value of an animatable property to the number, or
+ * the tuple of numbers, that its springs animate. Numbers and tuples
+ * are returned as is, and so are colors, which are parsed by the
+ * `{@link ColorSpring}` animating them.
+ *
+ * - Lengths, e.g. `"12px"`, are parsed to their number, and `calc()` lengths are kept as is
+ * - Box shadows, e.g. `"inset 0px 4px 8px 0px rgba(0, 0, 0, 0.2)"`, are parsed to `[x, y, blur, spread, r, g, b, a, inset]`, one after the other for several shadows
+ * - Clip paths, e.g. `"inset(10% 0% 0% 0%)"` or `"circle(50% at 50% 50%)"`, are parsed to their percentages
+ * - Matrices, e.g. `"matrix(1, 0, 0, 1, 20, 0)"`, are parsed to their numbers
+ * - SVG view boxes and points, e.g. `"0 0 100 100"` or `"0,0 10,20"`, are parsed to their numbers
+ * - Custom properties are parsed to a number, or kept as a length or a color string
+ *
+ * @param prop The animatable property
+ * @param value The value of the property
+ * @returns The value the springs of the property animate
+ */
+export const parseAnimatableValue = <Prop extends keyof AnimatableProps>(
+  prop: Prop,
+  value: AnimatableProps[Prop]
+): AnimatableProps[Prop] => {
+  if (typeof value !== "string" || prop in colorProperties) {
+    return value;
+  }
+
+  if (isCustomProperty(prop)) {
+    const n = Number(value);
+
+    if (value.trim() !== "" && !isNaN(n)) {
+      return n as AnimatableProps[Prop];
+    }
+
+    if (!isLengthValue(value) && !isColorValue(value)) {
+      warn(
+        `Can't animate '${prop}', as its value is neither a number, a length nor a color. Animating from 0 instead.`,
+        { prop, value }
+      );
+      return 0 as AnimatableProps[Prop];
+    }
+
+    return value as AnimatableProps[Prop];
+  }
+
+  if (prop === "boxShadow") {
+    if (value.trim() === "none") {
+      return [] as unknown as AnimatableProps[Prop];
+    }
+
+    // The commas of the color functions don't separate shadows
+    const shadows = value.split(/,(?![^(]*\))/);
+
+    return shadows.flatMap(shadow => {
+      const inset = /\binset\b/i.test(shadow) ? 1 : 0;
+      const outerShadow = shadow.replace(/\binset\b/gi, "");
+      const shadowColor =
+        outerShadow.match(
+          /#[0-9a-f]+|(?:rgba?|hsla?)\([^)]*\)|\b[a-z]+\b/i
+        )?.[0] ?? "black";
+      const [x = 0, y = 0, blur = 0, spread = 0] = parseNumbers(
+        outerShadow.replace(shadowColor, "")
+      );
+      const { r, g, b, a = 1 } = hexToRGB(shadowColor);
+
+      return [x, y, blur, spread, r, g, b, a, inset];
+    }) as AnimatableProps[Prop];
+  }
+
+  if (prop === "clipInset") {
+    const [top = 0, right = top, bottom = top, left = right] =
+      parseNumbers(value);
+
+    return [top, right, bottom, left] as AnimatableProps[Prop];
+  }
+
+  if (prop === "clipCircle") {
+    const [radius = 50, x = 50, y = 50] = parseNumbers(value);
+
+    return [radius, x, y] as AnimatableProps[Prop];
+  }
+
+  if (prop === "matrix" || prop === "viewBox" || prop === "points") {
+    return parseNumbers(value) as AnimatableProps[Prop];
+  }
+
+  // `calc()` lengths are resolved on the element, see `{@link parseUnitValue}`
+  if (isLengthProperty(prop)) {
+    return (
+      calcPattern.test(value) ? value : parseUnitValue(value)
+    ) as AnimatableProps[Prop];
+  }
+
+  return parseFloat(value) as AnimatableProps[Prop];
+};
+
+/**
+ * Maps a progress between `0` and `1`, e.g. a scroll progress, to
+ * values of animatable properties, each between the ends of its
+ * range. Numbers, lengths and tuples are mapped with
+ * `{@link mapValueInRange}`, and colors are interpolated. The ends of
+ * a length range should have the same unit, as there is no element to
+ * convert them on; otherwise the closest end is used, with a warning.
+ *
+ * @example
+ * ```ts
+ * mapProgressToProps(0.5, {
+ *   opacity: [0, 1],
+ *   translateY: ["40px", "0px"],
+ *   backgroundColor: ["#000000", "#ffffff"],
+ * });
+ * // => { opacity: 0.5, translateY: { value: 20, unit: "px" }, backgroundColor: "rgb(127,127,127)" }
+ * ```
+ *
+ * @param progress The progress to map
+ * @param ranges The ranges of the properties, from their value at `0` to their value at `1`
+ * @returns The values of the properties
+ */
+export const mapProgressToProps = (
+  progress: number,
+  ranges: ProgressRanges
+): Partial<AnimatableProps> => {
+  const props: Record<string, unknown> = {};
+
+  for (const prop in ranges) {
+    const [from, to] = ranges[prop as keyof AnimatableProps] as [
+      AnimatableProps[keyof AnimatableProps],
+      AnimatableProps[keyof AnimatableProps],
+    ];
+    const start = parseAnimatableValue(prop as keyof AnimatableProps, from);
+    const end = parseAnimatableValue(prop as keyof AnimatableProps, to);
+
+    // Lengths first, so that the unit strings of custom properties
+    // aren't interpolated as colors
+    if (isLengthProperty(prop, start) || isLengthProperty(prop, end)) {
+      const startLength = parseUnitValue(start as AnimatableLength);
+      const endLength = parseUnitValue(end as AnimatableLength);
+
+      // Plain numbers take the unit of the other end
+      if (
+        typeof start !== "number" &&
+        typeof end !== "number" &&
+        startLength.unit !== endLength.unit
+      ) {
+        warn(
+          `Can't map '${prop}' from '${startLength.unit}' to '${endLength.unit}', as the units can't be converted without an element. Jumping to the closest end instead.`,
+          { prop, from: start, to: end }
+        );
+        props[prop] = progress < 0.5 ? startLength : endLength;
+        continue;
+      }
+
+      props[prop] = {
+        value: mapValueInRange(
+          progress,
+          0,
+          1,
+          startLength.value,
+          endLength.value
+        ),
+        unit: endLength.unit,
+      };
+    } else if (typeof start === "string" || typeof end === "string") {
+      props[prop] = interpolateColor(
+        progress,
+        String(start),
+        String(end),
+        0,
+        1,
+        true
+      );
+    } else if (Array.isArray(start) && Array.isArray(end)) {
+      props[prop] = start.map((value, i) =>
+        mapValueInRange(progress, 0, 1, value, end[i] ?? value)
+      );
+    } else {
+      props[prop] = mapValueInRange(progress, 0, 1, Number(start), Number(end));
+    }
+  }
+
+  return props as Partial<AnimatableProps>;
+};
+
+/**
+ * The size of the absolute CSS units, in pixels.
+ */
+const absoluteUnits: { [unit: string]: number } = {
+  px: 1,
+  pt: 4 / 3,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+};
+
+/**
+ * The CSS units whose size depends on the element or the viewport.
+ */
+const relativeUnits: CSSUnit[] = ["%", "em", "rem", "vw", "vh", "vmin", "vmax"];
+
+/**
+ * Matches a number with an optional unit, e.g. `"12px"` or `"-0.5em"`.
+ */
+const unitValuePattern = /^(-?\d*\.?\d+(?:e[-+]?\d+)?)([a-z%]*)$/i;
+
+/**
+ * Matches a `calc()` length, e.g. `"calc(50% + 10px)"`.
+ */
+const calcPattern = /^\s*calc\((.*)\)\s*$/i;
+
+/**
+ * Check if a value is a length in a supported CSS unit, e.g. `"12px"`
+ * or `{ value: 50, unit: "%" }`.
+ *
+ * @param value The value to check
+ * @returns Whether the value is a length
+ */
+const isLengthValue = (value: unknown): boolean => {
+  if (typeof value === "object" && value !== null) {
+    return "unit" in value;
+  }
+
+  if (typeof value !== "string") {
+    return false;
+  }
+
+  if (calcPattern.test(value)) {
+    return true;
+  }
+
+  const unit = value.trim().match(unitValuePattern)?.[2]?.toLowerCase();
+
+  return (
+    !!unit && (unit in absoluteUnits || relativeUnits.includes(unit as CSSUnit))
+  );
+};
+
+/**
+ * Check if a value is a color string that can be animated.
+ *
+ * @param value The value to check
+ * @returns Whether the value is a color
+ */
+const isColorValue = (value: string): boolean => {
+  try {
+    hexToRGB(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check if a property is a length, which can be animated in any
+ * CSS unit (see `{@link UnitValue}`). Custom properties are lengths
+ * when their value is, e.g. `"--gap": "10px"`.
+ *
+ * @param prop The property to check
+ * @param value (Optional) The value of the property, for custom properties
+ * @returns Whether the property is a length
+ */
+export const isLengthProperty = (prop: string, value?: unknown): boolean =>
+  prop === "translateX" ||
+  prop === "translateY" ||
+  prop === "translateZ" ||
+  prop === "perspective" ||
+  (numericalProperties as Record<string, unknown>)[prop] === length ||
+  (isCustomProperty(prop) && isLengthValue(value));
+
+/**
+ * Resolves the expression of a `calc()` length to pixels, converting
+ * each of its terms on the element. Only sums and differences of
+ * lengths are supported, e.g. `"50% + 10px"`.
+ *
+ * @param expression The expression inside `calc()`
+ * @param prop (Optional) The property the length is used in
+ * @param element (Optional) The element the property is animated on
+ * @returns The length in pixels, or `null` if it can't be resolved
+ */
+const resolveCalc = (
+  expression: string,
+  prop?: keyof AnimatableProps,
+  element?: HTMLElement | SVGElement | null
+): number | null => {
+  // CSS requires whitespace around the `+` and `-` operators
+  const parts = expression.trim().split(/\s+([+-])\s+/);
+  let total = 0;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const match = (parts[i] as string).match(unitValuePattern);
+    const unit = (match?.[2] || "px").toLowerCase() as CSSUnit;
+
+    if (!match || !(unit in absoluteUnits || relativeUnits.includes(unit))) {
+      return null;
+    }
+
+    const length = convertUnit(
+      parseFloat(match[1] as string),
+      unit,
+      "px",
+      prop as keyof AnimatableProps,
+      element
+    );
+
+    if (length === null) {
+      return null;
+    }
+
+    total += parts[i - 1] === "-" ? -length : length;
+  }
+
+  return total;
+};
+
+/**
+ * Parses a length to a UnitValue. Numbers are in pixels, and so are
+ * `calc()` lengths, which are resolved on the element.
+ *
+ * @example
+ * ```ts
+ * parseUnitValue("50%"); // => { value: 50, unit: "%" }
+ * parseUnitValue(12); // => { value: 12, unit: "px" }
+ * parseUnitValue("calc(50% + 10px)", "width", element); // => { value: 210, unit: "px" }
+ * ```
+ *
+ * @param value The length to parse
+ * @param prop (Optional) The property the length is used in, to resolve `calc()` lengths
+ * @param element (Optional) The element the property is animated on, to resolve `calc()` lengths
+ * @returns The length as a UnitValue
+ */
+export const parseUnitValue = (
+  value: AnimatableLength,
+  prop?: keyof AnimatableProps,
+  element?: HTMLElement | SVGElement | null
+): UnitValue => {
+  if (typeof value === "number") {
+    return { value, unit: "px" };
+  }
+
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  const calc = value.match(calcPattern);
+
+  if (calc) {
+    const length = resolveCalc(calc[1] as string, prop, element);
+
+    if (length === null) {
+      warn(
+        `Can't resolve '${value}', as only sums and differences of lengths whose units can be converted on the element are supported. Animating it as 0px instead.`,
+        { prop, value }
+      );
+    }
+
+    return { value: length ?? 0, unit: "px" };
+  }
+
+  const match = value.trim().match(unitValuePattern);
+  const unit = (match?.[2] || "px").toLowerCase() as CSSUnit;
+
+  if (!match || !(unit in absoluteUnits || relativeUnits.includes(unit))) {
+    const units = [...Object.keys(absoluteUnits), ...relativeUnits];
+
+    throw new Error(
+      `Expected a number with one of the units ${units.join(", ")}, got '${value}'`
+    );
+  }
+
+  return { value: parseFloat(match[1] as string), unit };
+};
+
+/**
+ * The properties whose percentages refer to the size of the element
+ * itself, or of its parent (as an approximation of the containing
+ * block), and to which dimension.
+ */
+const percentageBases: {
+  [prop: string]: [of: "self" | "parent", dimension: "width" | "height"];
+} = {
+  translateX: ["self", "width"],
+  translateY: ["self", "height"],
+  width: ["parent", "width"],
+  left: ["parent", "width"],
+  right: ["parent", "width"],
+  height: ["parent", "height"],
+  top: ["parent", "height"],
+  bottom: ["parent", "height"],
+  margin: ["parent", "width"],
+  marginTop: ["parent", "width"],
+  marginRight: ["parent", "width"],
+  marginBottom: ["parent", "width"],
+  marginLeft: ["parent", "width"],
+  padding: ["parent", "width"],
+  paddingTop: ["parent", "width"],
+  paddingRight: ["parent", "width"],
+  paddingBottom: ["parent", "width"],
+  paddingLeft: ["parent", "width"],
+};
+
+/**
+ * Get the font size of an element, in pixels.
+ *
+ * @param element The element to get the font size of
+ * @returns The font size of the element, or `null` if it isn't computed
+ */
+const getFontSize = (element: Element) => {
+  const fontSize = parseFloat(getComputedStyle(element).fontSize);
+  return Number.isFinite(fontSize) ? fontSize : null;
+};
+
+/**
+ * Get the size of a CSS unit in pixels, for a property of an element.
+ *
+ * @param unit The unit to get the size of
+ * @param prop The property the unit is used in
+ * @param element The element the property is animated on
+ * @returns The size of the unit in pixels, or `null` if it can't be measured
+ */
+export const getUnitSize = (
+  unit: CSSUnit,
+  prop: keyof AnimatableProps,
+  element: HTMLElement | SVGElement | null | undefined
+): number | null => {
+  if (unit in absoluteUnits) {
+    return absoluteUnits[unit] as number;
+  }
+
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  switch (unit) {
+    case "rem":
+      return getFontSize(document.documentElement);
+    case "vw":
+      return window.innerWidth / 100;
+    case "vh":
+      return window.innerHeight / 100;
+    case "vmin":
+      return Math.min(window.innerWidth, window.innerHeight) / 100;
+    case "vmax":
+      return Math.max(window.innerWidth, window.innerHeight) / 100;
+  }
+
+  if (!element) {
+    return null;
+  }
+
+  // The font size refers to the font size of the parent element
+  const fontElement =
+    prop === "fontSize" ? element.parentElement : (element as Element);
+
+  if (unit === "em") {
+    return fontElement ? getFontSize(fontElement) : null;
+  }
+
+  if (prop === "fontSize" || prop === "lineHeight") {
+    const fontSize = fontElement ? getFontSize(fontElement) : null;
+    return fontSize === null ? null : fontSize / 100;
+  }
+
+  const base = percentageBases[prop];
+  const baseElement = base?.[0] === "self" ? element : element.parentElement;
+
+  if (!base || !baseElement) {
+    return null;
+  }
+
+  const rect = baseElement.getBoundingClientRect();
+  return (base[1] === "width" ? rect.width : rect.height) / 100;
+};
+
+/**
+ * Converts a number from a CSS unit to another, for a property of
+ * an element. Relative units are measured on the element.
+ *
+ * @param value The number to convert
+ * @param fromUnit The unit to convert from
+ * @param toUnit The unit to convert to
+ * @param prop The property the number is used in
+ * @param element The element the property is animated on
+ * @returns The converted number, or `null` if the units can't be measured
+ */
+export const convertUnit = (
+  value: number,
+  fromUnit: CSSUnit,
+  toUnit: CSSUnit,
+  prop: keyof AnimatableProps,
+  element: HTMLElement | SVGElement | null | undefined
+): number | null => {
+  if (fromUnit === toUnit) {
+    return value;
+  }
+
+  const fromSize = getUnitSize(fromUnit, prop, element);
+  const toSize = getUnitSize(toUnit, prop, element);
+
+  if (fromSize === null || toSize === null || toSize === 0) {
+    return null;
+  }
+
+  return (value * fromSize) / toSize;
+};
+
+/**
+ * Warns that a length can't be animated from a unit to another, as
+ * the units can't be converted on the element.
+ *
+ * @param prop The animated property
+ * @param fromUnit The unit to animate from
+ * @param toUnit The unit to animate to
+ */
+const warnUnitConversion = (
+  prop: keyof AnimatableProps,
+  fromUnit: CSSUnit,
+  toUnit: CSSUnit
+) => {
+  warn(
+    `Can't animate '${prop}' from '${fromUnit}' to '${toUnit}', as the units can't be converted on the element. Jumping to the new value instead.`,
+    { prop, from: fromUnit, to: toUnit }
+  );
+};
+
+/**
+ * Converts a length, e.g. the start value of an animation, to a number
+ * in the unit the spring of a property animates. `calc()` lengths are
+ * resolved on the element first. Warns when the units can't be
+ * converted, so that the animation jumps to its end value instead.
+ *
+ * @example
+ * ```ts
+ * convertLength("2rem", "px", "width", element); // => 32
+ * ```
+ *
+ * @param value The length to convert
+ * @param toUnit The unit to convert to
+ * @param prop The property the length is used in
+ * @param element The element the property is animated on
+ * @returns The converted number, or `null` if the units can't be converted
+ */
+export const convertLength = (
+  value: AnimatableLength,
+  toUnit: CSSUnit,
+  prop: keyof AnimatableProps,
+  element: HTMLElement | SVGElement | null | undefined
+): number | null => {
+  const { value: n, unit } = parseUnitValue(value, prop, element);
+  const converted = convertUnit(n, unit, toUnit, prop, element);
+
+  if (converted === null) {
+    warnUnitConversion(prop, unit, toUnit);
+  }
+
+  return converted;
+};
+
+/**
+ * Converts the spring of a length to another unit, keeping its motion:
+ * its current value, velocity and end value are converted on the
+ * element. Warns when the units can't be converted, so that the
+ * spring jumps to its new value instead.
+ *
+ * @param spring The spring of the length
+ * @param fromUnit The unit the spring animates
+ * @param toUnit The unit to convert the spring to
+ * @param prop The animated property
+ * @param element The element the property is animated on
+ * @returns Whether the spring was converted
+ */
+export const convertLengthSpring = (
+  spring: Spring,
+  fromUnit: CSSUnit,
+  toUnit: CSSUnit,
+  prop: keyof AnimatableProps,
+  element: HTMLElement | SVGElement | null | undefined
+): boolean => {
+  const [current, velocity, end] = [
+    spring.getCurrentValue(),
+    spring.getVelocity(),
+    spring.getEndValue(),
+  ].map(v => convertUnit(v, fromUnit, toUnit, prop, element));
+
+  if (current == null || velocity == null || end == null) {
+    warnUnitConversion(prop, fromUnit, toUnit);
+    return false;
+  }
+
+  spring.setCurrentValue(current, true);
+  spring.setVelocity(velocity);
+  spring.setEndValue(end);
+  return true;
+};
+
+/**
+ * Creates a spring for an animatable property: a `{@link ColorSpring}`
+ * for colors, a `{@link MultiSpring}` for tuples, and a `{@link Spring}`
+ * (or a `{@link DecaySimulation}`) for numbers.
+ *
+ * @param springSystem The spring system to create the spring in
+ * @param prop The property to animate
+ * @param startValue The start value of the spring
+ * @param springConfig The config of the spring
+ * @param colorSpace The color space to interpolate colors in
+ * @param decayOptions (Optional) The options to glide from the velocity instead
+ * @returns The spring for the property
+ */
+export const createAnimatableSpring = <Prop extends keyof AnimatableProps>(
+  springSystem: SpringSystem,
+  prop: Prop,
+  startValue: AnimatableProps[Prop],
+  springConfig: SpringConfig,
+  colorSpace: ColorSpace,
+  decayOptions?: DecaySimulationOptions
+): SpringForAnimatableProp<Prop> => {
+  let spring: ColorSpring | MultiSpring<number[]> | Spring;
+
+  // The springs of lengths animate their number
+  if (isCustomProperty(prop) && isLengthValue(startValue)) {
+    startValue = parseUnitValue(startValue as AnimatableLength)
+      .value as AnimatableProps[Prop];
+  }
+
+  if (
+    prop in colorProperties ||
+    (isCustomProperty(prop) &&
+      (Array.isArray(startValue) ||
+        (typeof startValue === "string" && isColorValue(startValue))))
+  ) {
+    spring = new ColorSpring(
+      springSystem,
+      springConfig,
+      colorSpace,
+      decayOptions
+    );
+    spring.setCurrentValue(startValue as string);
+  } else if (Array.isArray(startValue)) {
+    spring = new MultiSpring(springSystem, springConfig, decayOptions);
+    spring.setCurrentValue(startValue as number[]);
+  } else if (decayOptions) {
+    spring = springSystem
+      .createDecaySimulation(decayOptions)
+      .setSpringConfig(springConfig);
+    spring.setCurrentValue(startValue as number);
+  } else {
+    spring = springSystem.createSpringWithConfig(springConfig);
+    spring.setCurrentValue(startValue as number);
+  }
+
+  return spring as SpringForAnimatableProp<Prop>;
 };
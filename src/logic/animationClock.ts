@@ -0,0 +1,357 @@
+import type { FrameJobOptions, Looper } from "../types/logic.ts";
+
+import { FrameScheduler } from "./frameScheduler.ts";
+import type { SteppingSimulationLooper } from "./springs.ts";
+
+/**
+ * A manual clock that drives every spring and `requestAnimationFrame`
+ * based hook in the library. This is useful for testing animations in
+ * a deterministic way, since frames only happen when the clock is
+ * advanced.
+ *
+ * While a clock is installed (see `{@link setAnimationClock}`), every
+ * SpringSystem that starts looping has its looper swapped for a
+ * `{@link SteppingSimulationLooper}` which is stepped by the clock.
+ * The previous loopers are restored when the clock is uninstalled.
+ *
+ * **Methods**
+ * - `now` - Get the current time of the clock in milliseconds
+ * - `requestFrame` - Schedule a callback to run on the next frame of the clock
+ * - `cancelFrame` - Cancel a callback scheduled with `requestFrame`
+ * - `addLooper` - Register a stepping looper to be stepped on each frame
+ * - `restoreLoopers` - Give back the loopers that were swapped for stepping loopers
+ * - `isIdle` - Check if there is no pending frame work
+ * - `advance` - Advance the clock by a number of milliseconds
+ * - `runUntilIdle` - Advance the clock until there is no pending frame work
+ *
+ * **Properties**
+ * - `frameDuration` - The duration of a single frame in milliseconds
+ */
+export class AnimationClock {
+  /**
+   * The duration of a single frame in milliseconds.
+   */
+  frameDuration: number;
+
+  /**
+   * The current time of the clock in milliseconds.
+   */
+  private _time: number = 0;
+  /**
+   * The time that was advanced but did not add up to a full frame yet.
+   */
+  private _pendingTime: number = 0;
+  /**
+   * Helper for iterating frame request IDs.
+   */
+  private _frameId: number = 0;
+  /**
+   * The callbacks to run on the next frame.
+   */
+  private _frameCallbacks: Map<number, FrameRequestCallback> = new Map();
+  /**
+   * The stepping loopers driven by the clock, mapped to the
+   * loopers they replaced.
+   */
+  private _loopers: Map<SteppingSimulationLooper, Looper> = new Map();
+
+  /**
+   * @constructor
+   * @param frameDuration (Optional) The duration of a single frame in milliseconds (Defaults to `1000 / 60`)
+   */
+  constructor(frameDuration?: number) {
+    this.frameDuration = frameDuration ?? 1000 / 60;
+  }
+
+  /**
+   * Get the current time of the clock in milliseconds.
+   *
+   * @returns The current time of the clock
+   */
+  now(): number {
+    return this._time;
+  }
+
+  /**
+   * Schedule a callback to run on the next frame of the clock.
+   *
+   * @param callback The callback to run
+   * @returns The ID of the frame request
+   */
+  requestFrame(callback: FrameRequestCallback): number {
+    const id = ++this._frameId;
+    this._frameCallbacks.set(id, callback);
+    return id;
+  }
+
+  /**
+   * Cancel a callback scheduled with `requestFrame`.
+   *
+   * @param id The ID of the frame request to cancel
+   */
+  cancelFrame(id: number): void {
+    this._frameCallbacks.delete(id);
+  }
+
+  /**
+   * Register a stepping looper to be stepped on each frame.
+   *
+   * @param looper The stepping looper to step
+   * @param previousLooper The looper that was replaced by the stepping looper
+   */
+  addLooper(looper: SteppingSimulationLooper, previousLooper: Looper): void {
+    this._loopers.set(looper, previousLooper);
+  }
+
+  /**
+   * Give back the loopers that were swapped for stepping loopers,
+   * resuming any spring system that is still active.
+   */
+  restoreLoopers(): void {
+    for (const [looper, previousLooper] of this._loopers) {
+      const springSystem = looper.springSystem;
+
+      if (springSystem?.looper === looper) {
+        springSystem.setLooper(previousLooper);
+
+        if (!springSystem.getIsIdle()) {
+          previousLooper.run();
+        }
+      }
+    }
+
+    this._loopers.clear();
+  }
+
+  /**
+   * Check if there is no pending frame work, i.e. no frame callbacks
+   * are scheduled and all the spring systems are at rest.
+   *
+   * @returns Whether the clock is idle
+   */
+  isIdle(): boolean {
+    if (this._frameCallbacks.size > 0) {
+      return false;
+    }
+
+    for (const looper of this._loopers.keys()) {
+      if (looper.springSystem && !looper.springSystem.getIsIdle()) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Advance the clock by a number of milliseconds. The time is split
+   * into frames of `frameDuration`; time that does not add up to a full
+   * frame is carried over to the next call.
+   *
+   * @param ms The number of milliseconds to advance the clock by
+   */
+  advance(ms: number): void {
+    this._pendingTime += ms;
+
+    // Allow for rounding errors, e.g. 6 frames of `1000 / 60` in 100ms
+    while (this._pendingTime >= this.frameDuration - 1e-9) {
+      this._pendingTime -= this.frameDuration;
+      this.tick();
+    }
+  }
+
+  /**
+   * Advance the clock frame by frame until there is no pending
+   * frame work.
+   *
+   * @param maxMs (Optional) The maximum number of milliseconds to advance the clock by (Defaults to `10000`)
+   * @returns The number of milliseconds the clock was advanced by
+   */
+  runUntilIdle(maxMs: number = 10000): number {
+    let elapsed = 0;
+
+    while (!this.isIdle()) {
+      if (elapsed >= maxMs) {
+        throw new Error(`AnimationClock did not become idle within ${maxMs}ms`);
+      }
+
+      this.tick();
+      elapsed += this.frameDuration;
+    }
+
+    return elapsed;
+  }
+
+  /**
+   * Run a single frame: step the spring systems, then run the
+   * frame callbacks that were scheduled before the frame started.
+   */
+  private tick(): void {
+    this._time += this.frameDuration;
+
+    for (const looper of this._loopers.keys()) {
+      if (looper.springSystem && !looper.springSystem.getIsIdle()) {
+        looper.step(this.frameDuration);
+      }
+    }
+
+    const callbacks = this._frameCallbacks;
+    this._frameCallbacks = new Map();
+
+    for (const callback of callbacks.values()) {
+      callback(this._time);
+    }
+  }
+}
+
+/**
+ * The currently installed animation clock.
+ */
+let currentClock: AnimationClock | null = null;
+
+/**
+ * The frame scheduler shared by every spring and
+ * `requestAnimationFrame` based hook. Its frames come from the
+ * installed animation clock, or from `requestAnimationFrame`.
+ */
+const frameScheduler = new FrameScheduler({
+  requestFrame: callback => {
+    if (currentClock) {
+      return currentClock.requestFrame(callback);
+    }
+
+    // Outside of the browser, e.g. on the server, frames are timeouts
+    if (typeof requestAnimationFrame === "undefined") {
+      return setTimeout(() => callback(Date.now()), 1000 / 60) as never;
+    }
+
+    return requestAnimationFrame(callback);
+  },
+  cancelFrame: id => {
+    if (currentClock) {
+      currentClock.cancelFrame(id);
+    } else if (typeof cancelAnimationFrame === "undefined") {
+      clearTimeout(id);
+    } else {
+      cancelAnimationFrame(id);
+    }
+  },
+});
+
+/**
+ * Get the currently installed animation clock.
+ *
+ * @returns The installed clock, or `null` if animations run in real time
+ */
+export const getAnimationClock = (): AnimationClock | null => currentClock;
+
+/**
+ * Install an animation clock for every spring and
+ * `requestAnimationFrame` based hook. Pass `null` to go back to
+ * real time animations.
+ *
+ * This is the non-React counterpart of the
+ * `{@link AnimationClockProvider}` component.
+ *
+ * @example
+ * ```ts
+ * const clock = new AnimationClock();
+ * setAnimationClock(clock);
+ *
+ * // ...render and trigger some animations
+ *
+ * clock.advance(100);
+ * clock.runUntilIdle();
+ *
+ * setAnimationClock(null);
+ * ```
+ *
+ * @param clock The clock to install, or `null` to uninstall the current clock
+ */
+export const setAnimationClock = (clock: AnimationClock | null): void => {
+  if (currentClock === clock) {
+    return;
+  }
+
+  // Uninstall the previous clock first, so the loopers it gives back
+  // don't swap themselves for its stepping loopers again
+  const previousClock = currentClock;
+  currentClock = clock;
+  previousClock?.restoreLoopers();
+  frameScheduler.resetFrameSource();
+};
+
+/**
+ * Get the frame scheduler shared by every spring and
+ * `requestAnimationFrame` based hook, e.g. to change its frame budget.
+ *
+ * @returns The frame scheduler
+ */
+export const getFrameScheduler = (): FrameScheduler => frameScheduler;
+
+/**
+ * Get the current frame time in milliseconds, from the installed
+ * animation clock or from `Date.now()`.
+ *
+ * @returns The current frame time
+ */
+export const getFrameTime = (): number =>
+  currentClock ? currentClock.now() : Date.now();
+
+/**
+ * Schedule a callback for the next frame of the shared
+ * `{@link FrameScheduler}`, whose frames come from the installed
+ * animation clock or from `requestAnimationFrame`.
+ *
+ * @example
+ * ```ts
+ * requestFrame(() => (width = element.offsetWidth), { phase: "read" });
+ * requestFrame(() => (element.style.width = `${width / 2}px`), {
+ *   phase: "write",
+ * });
+ * ```
+ *
+ * @param callback The callback to run on the next frame
+ * @param options (Optional) The options of the job
+ * @param options.phase (Optional) The phase of the frame to run the callback in (Defaults to `"update"`)
+ * @param options.priority (Optional) The priority of the callback within its phase (Defaults to `"normal"`)
+ * @returns The ID of the frame request
+ */
+export const requestFrame = (
+  callback: FrameRequestCallback,
+  options?: FrameJobOptions
+): number => frameScheduler.schedule(callback, options);
+
+/**
+ * Cancel a callback scheduled with `{@link requestFrame}`.
+ *
+ * @param id The ID of the frame request to cancel
+ */
+export const cancelFrame = (id: number): void => {
+  frameScheduler.cancel(id);
+};
+
+/**
+ * Add a job to run on every frame of the shared
+ * `{@link FrameScheduler}`, until it is removed.
+ *
+ * @example
+ * ```ts
+ * const removeJob = addFrameJob(time => sampleMetrics(time), {
+ *   priority: "low",
+ * });
+ *
+ * // ...later
+ * removeJob();
+ * ```
+ *
+ * @param callback The callback to run on every frame
+ * @param options (Optional) The options of the job
+ * @param options.phase (Optional) The phase of the frame to run the callback in (Defaults to `"update"`)
+ * @param options.priority (Optional) The priority of the callback within its phase (Defaults to `"normal"`)
+ * @returns A function to remove the job
+ */
+export const addFrameJob = (
+  callback: FrameRequestCallback,
+  options?: FrameJobOptions
+): (() => void) => frameScheduler.addJob(callback, options);
@@ -0,0 +1,430 @@
+import type { ColorSpace, ColorTuple } from "../types/logic.ts";
+
+/**
+ * The CSS named colors, as hex color strings.
+ */
+export const namedColors: { [name: string]: string } = {
+  aliceblue: "#f0f8ff",
+  antiquewhite: "#faebd7",
+  aqua: "#00ffff",
+  aquamarine: "#7fffd4",
+  azure: "#f0ffff",
+  beige: "#f5f5dc",
+  bisque: "#ffe4c4",
+  black: "#000000",
+  blanchedalmond: "#ffebcd",
+  blue: "#0000ff",
+  blueviolet: "#8a2be2",
+  brown: "#a52a2a",
+  burlywood: "#deb887",
+  cadetblue: "#5f9ea0",
+  chartreuse: "#7fff00",
+  chocolate: "#d2691e",
+  coral: "#ff7f50",
+  cornflowerblue: "#6495ed",
+  cornsilk: "#fff8dc",
+  crimson: "#dc143c",
+  cyan: "#00ffff",
+  darkblue: "#00008b",
+  darkcyan: "#008b8b",
+  darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9",
+  darkgreen: "#006400",
+  darkgrey: "#a9a9a9",
+  darkkhaki: "#bdb76b",
+  darkmagenta: "#8b008b",
+  darkolivegreen: "#556b2f",
+  darkorange: "#ff8c00",
+  darkorchid: "#9932cc",
+  darkred: "#8b0000",
+  darksalmon: "#e9967a",
+  darkseagreen: "#8fbc8f",
+  darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f",
+  darkslategrey: "#2f4f4f",
+  darkturquoise: "#00ced1",
+  darkviolet: "#9400d3",
+  deeppink: "#ff1493",
+  deepskyblue: "#00bfff",
+  dimgray: "#696969",
+  dimgrey: "#696969",
+  dodgerblue: "#1e90ff",
+  firebrick: "#b22222",
+  floralwhite: "#fffaf0",
+  forestgreen: "#228b22",
+  fuchsia: "#ff00ff",
+  gainsboro: "#dcdcdc",
+  ghostwhite: "#f8f8ff",
+  gold: "#ffd700",
+  goldenrod: "#daa520",
+  gray: "#808080",
+  green: "#008000",
+  greenyellow: "#adff2f",
+  grey: "#808080",
+  honeydew: "#f0fff0",
+  hotpink: "#ff69b4",
+  indianred: "#cd5c5c",
+  indigo: "#4b0082",
+  ivory: "#fffff0",
+  khaki: "#f0e68c",
+  lavender: "#e6e6fa",
+  lavenderblush: "#fff0f5",
+  lawngreen: "#7cfc00",
+  lemonchiffon: "#fffacd",
+  lightblue: "#add8e6",
+  lightcoral: "#f08080",
+  lightcyan: "#e0ffff",
+  lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3",
+  lightgreen: "#90ee90",
+  lightgrey: "#d3d3d3",
+  lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a",
+  lightseagreen: "#20b2aa",
+  lightskyblue: "#87cefa",
+  lightslategray: "#778899",
+  lightslategrey: "#778899",
+  lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0",
+  lime: "#00ff00",
+  limegreen: "#32cd32",
+  linen: "#faf0e6",
+  magenta: "#ff00ff",
+  maroon: "#800000",
+  mediumaquamarine: "#66cdaa",
+  mediumblue: "#0000cd",
+  mediumorchid: "#ba55d3",
+  mediumpurple: "#9370db",
+  mediumseagreen: "#3cb371",
+  mediumslateblue: "#7b68ee",
+  mediumspringgreen: "#00fa9a",
+  mediumturquoise: "#48d1cc",
+  mediumvioletred: "#c71585",
+  midnightblue: "#191970",
+  mintcream: "#f5fffa",
+  mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5",
+  navajowhite: "#ffdead",
+  navy: "#000080",
+  oldlace: "#fdf5e6",
+  olive: "#808000",
+  olivedrab: "#6b8e23",
+  orange: "#ffa500",
+  orangered: "#ff4500",
+  orchid: "#da70d6",
+  palegoldenrod: "#eee8aa",
+  palegreen: "#98fb98",
+  paleturquoise: "#afeeee",
+  palevioletred: "#db7093",
+  papayawhip: "#ffefd5",
+  peachpuff: "#ffdab9",
+  peru: "#cd853f",
+  pink: "#ffc0cb",
+  plum: "#dda0dd",
+  powderblue: "#b0e0e6",
+  purple: "#800080",
+  rebeccapurple: "#663399",
+  red: "#ff0000",
+  rosybrown: "#bc8f8f",
+  royalblue: "#4169e1",
+  saddlebrown: "#8b4513",
+  salmon: "#fa8072",
+  sandybrown: "#f4a460",
+  seagreen: "#2e8b57",
+  seashell: "#fff5ee",
+  sienna: "#a0522d",
+  silver: "#c0c0c0",
+  skyblue: "#87ceeb",
+  slateblue: "#6a5acd",
+  slategray: "#708090",
+  slategrey: "#708090",
+  snow: "#fffafa",
+  springgreen: "#00ff7f",
+  steelblue: "#4682b4",
+  tan: "#d2b48c",
+  teal: "#008080",
+  thistle: "#d8bfd8",
+  tomato: "#ff6347",
+  transparent: "#00000000",
+  turquoise: "#40e0d0",
+  violet: "#ee82ee",
+  wheat: "#f5deb3",
+  white: "#ffffff",
+  whitesmoke: "#f5f5f5",
+  yellow: "#ffff00",
+  yellowgreen: "#9acd32",
+};
+
+/**
+ * The index of the hue component in the color spaces with a hue.
+ */
+const hueIndex: Partial<Record<ColorSpace, number>> = {
+  hsl: 0,
+  oklch: 2,
+};
+
+/**
+ * Converts a gamma-encoded sRGB channel to linear light.
+ *
+ * @param c The channel, between `0` and `1`
+ * @returns The linear channel
+ */
+const toLinear = (c: number) =>
+  Math.abs(c) <= 0.04045
+    ? c / 12.92
+    : Math.sign(c) * ((Math.abs(c) + 0.055) / 1.055) ** 2.4;
+
+/**
+ * Converts a linear light channel to gamma-encoded sRGB.
+ *
+ * @param c The linear channel
+ * @returns The channel, between `0` and `1`
+ */
+const fromLinear = (c: number) =>
+  Math.abs(c) <= 0.0031308
+    ? c * 12.92
+    : Math.sign(c) * (1.055 * Math.abs(c) ** (1 / 2.4) - 0.055);
+
+/**
+ * Converts an RGB color to HSL.
+ *
+ * @param r The red component, between `0` and `255`
+ * @param g The green component, between `0` and `255`
+ * @param b The blue component, between `0` and `255`
+ * @returns The hue in degrees, and the saturation and lightness in percents
+ */
+const rgbToHSL = (
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  if (d === 0) {
+    return [0, 0, l * 100];
+  }
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+
+  if (max === rn) {
+    h = ((gn - bn) / d) % 6;
+  } else if (max === gn) {
+    h = (bn - rn) / d + 2;
+  } else {
+    h = (rn - gn) / d + 4;
+  }
+
+  return [(h * 60 + 360) % 360, s * 100, l * 100];
+};
+
+/**
+ * Converts an HSL color to RGB.
+ *
+ * @param h The hue in degrees
+ * @param s The saturation in percents
+ * @param l The lightness in percents
+ * @returns The red, green and blue components, between `0` and `255`
+ */
+export const hslToRGB = (
+  h: number,
+  s: number,
+  l: number
+): [number, number, number] => {
+  const sn = s / 100;
+  const ln = l / 100;
+  const k = (n: number) => (n + (((h % 360) + 360) % 360) / 30) % 12;
+  const a = sn * Math.min(ln, 1 - ln);
+  const f = (n: number) =>
+    ln - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+};
+
+/**
+ * Converts an RGB color to OKLab.
+ *
+ * @param r The red component, between `0` and `255`
+ * @param g The green component, between `0` and `255`
+ * @param b The blue component, between `0` and `255`
+ * @returns The lightness, and the green-red and blue-yellow axes
+ */
+const rgbToOKLab = (
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] => {
+  const lr = toLinear(r / 255);
+  const lg = toLinear(g / 255);
+  const lb = toLinear(b / 255);
+
+  const l = Math.cbrt(
+    0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb
+  );
+  const m = Math.cbrt(
+    0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb
+  );
+  const s = Math.cbrt(
+    0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb
+  );
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+/**
+ * Converts an OKLab color to RGB.
+ *
+ * @param L The lightness
+ * @param a The green-red axis
+ * @param b The blue-yellow axis
+ * @returns The red, green and blue components, between `0` and `255`
+ */
+const okLabToRGB = (
+  L: number,
+  a: number,
+  b: number
+): [number, number, number] => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s) * 255,
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s) * 255,
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s) * 255,
+  ];
+};
+
+/**
+ * Converts an RGB color tuple to the components of a color space, to
+ * interpolate the color in that space. The alpha component is kept
+ * as is.
+ *
+ * - `srgb` - The red, green and blue components, between `0` and `255`
+ * - `linear-srgb` - The linear red, green and blue components, between `0` and `1`
+ * - `hsl` - The hue in degrees, and the saturation and lightness in percents
+ * - `oklab` - The OKLab lightness (between `0` and `1`), and the `a` and `b` axes
+ * - `oklch` - The OKLab lightness, chroma and hue in degrees
+ *
+ * @param color The RGB color tuple to convert
+ * @param colorSpace The color space to convert to
+ * @returns The components of the color in the color space
+ */
+export const toColorSpace = (
+  color: ColorTuple,
+  colorSpace: ColorSpace
+): ColorTuple => {
+  const [r, g, b, a = 1] = color;
+  let components: [number, number, number];
+
+  switch (colorSpace) {
+    case "linear-srgb":
+      components = [toLinear(r / 255), toLinear(g / 255), toLinear(b / 255)];
+      break;
+    case "hsl":
+      components = rgbToHSL(r, g, b);
+      break;
+    case "oklab":
+      components = rgbToOKLab(r, g, b);
+      break;
+    case "oklch": {
+      const [L, okA, okB] = rgbToOKLab(r, g, b);
+      const h = (Math.atan2(okB, okA) * 180) / Math.PI;
+      components = [L, Math.sqrt(okA * okA + okB * okB), (h + 360) % 360];
+      break;
+    }
+    default:
+      components = [r, g, b];
+  }
+
+  return [...components, a];
+};
+
+/**
+ * Converts the components of a color space back to an RGB color
+ * tuple, see `{@link toColorSpace}`. The components are not clamped,
+ * so colors out of the sRGB gamut are left to the CSS formatting.
+ *
+ * @param components The components of the color in the color space
+ * @param colorSpace The color space to convert from
+ * @returns The RGB color tuple
+ */
+export const fromColorSpace = (
+  components: ColorTuple,
+  colorSpace: ColorSpace
+): ColorTuple => {
+  const [c1, c2, c3, a = 1] = components;
+  let rgb: [number, number, number];
+
+  switch (colorSpace) {
+    case "linear-srgb":
+      rgb = [fromLinear(c1) * 255, fromLinear(c2) * 255, fromLinear(c3) * 255];
+      break;
+    case "hsl":
+      rgb = hslToRGB(c1, c2, c3);
+      break;
+    case "oklab":
+      rgb = okLabToRGB(c1, c2, c3);
+      break;
+    case "oklch": {
+      const h = (c3 * Math.PI) / 180;
+      rgb = okLabToRGB(c1, c2 * Math.cos(h), c2 * Math.sin(h));
+      break;
+    }
+    default:
+      rgb = [c1, c2, c3];
+  }
+
+  return [...rgb, a];
+};
+
+/**
+ * Adjusts the hue of a target color so that interpolating to it from
+ * a color takes the shorter way around the hue circle. When either of
+ * the colors has no saturation (a gray), its hue is meaningless and
+ * the hue of the other color is used.
+ *
+ * @param from The components of the color to interpolate from
+ * @param to The components of the color to interpolate to
+ * @param colorSpace The color space of the components
+ * @returns The adjusted components of the colors to interpolate between
+ */
+export const adjustHue = (
+  from: ColorTuple,
+  to: ColorTuple,
+  colorSpace: ColorSpace
+): [from: ColorTuple, to: ColorTuple] => {
+  const index = hueIndex[colorSpace];
+
+  if (index === undefined) {
+    return [from, to];
+  }
+
+  // The saturation (HSL) and the chroma (OKLCH) are both the second component
+  const chromaIndex = 1;
+  const adjustedFrom = [...from] as ColorTuple;
+  const adjustedTo = [...to] as ColorTuple;
+  const fromHue = from[index] as number;
+  const toHue = to[index] as number;
+
+  if ((to[chromaIndex] as number) < 1e-4) {
+    adjustedTo[index] = fromHue;
+  } else if ((from[chromaIndex] as number) < 1e-4) {
+    adjustedFrom[index] = toHue;
+  } else {
+    adjustedTo[index] =
+      fromHue + ((((toHue - fromHue) % 360) + 540) % 360) - 180;
+  }
+
+  return [adjustedFrom, adjustedTo];
+};
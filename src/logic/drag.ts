@@ -0,0 +1,146 @@
+import type { DragPoint } from "../types/logic.ts";
+
+/**
+ * The time window of the samples that the velocity of a drag gesture
+ * is measured over, in milliseconds.
+ */
+const VELOCITY_WINDOW_MS = 100;
+
+/**
+ * Stretch a value past a range, the way a rubber band resists being
+ * pulled: the further the value is past the range, the less it moves.
+ * Values within the range are returned as they are.
+ *
+ * @example
+ * ```ts
+ * rubberband(50, 0, 100, 300); // => 50
+ * rubberband(140, 0, 100, 300); // => 105.88...
+ * ```
+ *
+ * @param value The value to stretch
+ * @param min The lower end of the range
+ * @param max The upper end of the range
+ * @param dimension The size the stretch is relative to, e.g. the size of the dragged element
+ * @param elasticity (Optional) How much the value moves past the range, between `0` and `1` (Defaults to `0.15`)
+ * @returns The stretched value
+ */
+export const rubberband = (
+  value: number,
+  min: number,
+  max: number,
+  dimension: number,
+  elasticity: number = 0.15
+): number => {
+  const stretch = (overflow: number) =>
+    dimension > 0 && Number.isFinite(dimension)
+      ? (overflow * dimension * elasticity) /
+        (dimension + elasticity * overflow)
+      : overflow * elasticity;
+
+  if (value < min) {
+    return min - stretch(min - value);
+  }
+
+  if (value > max) {
+    return max + stretch(value - max);
+  }
+
+  return value;
+};
+
+/**
+ * Find the snap point nearest to a point. An omitted coordinate of a
+ * snap point matches the coordinate of the point.
+ *
+ * @param point The point to snap
+ * @param snapPoints The snap points to choose from
+ * @returns The nearest snap point, with both coordinates, or `null` if there are no snap points
+ */
+export const findNearestSnapPoint = (
+  point: Required<DragPoint>,
+  snapPoints: DragPoint[]
+): Required<DragPoint> | null => {
+  let nearest: Required<DragPoint> | null = null;
+  let nearestDistance = Infinity;
+
+  for (const snapPoint of snapPoints) {
+    const x = snapPoint.x ?? point.x;
+    const y = snapPoint.y ?? point.y;
+    const distance = Math.hypot(x - point.x, y - point.y);
+
+    if (distance < nearestDistance) {
+      nearest = { x, y };
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+};
+
+/**
+ * Measures the velocity of a pointer from the positions it moved
+ * through. The velocity is measured over the last 100 milliseconds,
+ * so that a pointer that stops before it is released has no velocity.
+ *
+ * **Methods**
+ * - `addSample` - Record a position of the pointer
+ * - `getVelocity` - Get the velocity of the pointer
+ * - `reset` - Forget the recorded positions
+ */
+export class VelocityTracker {
+  /**
+   * The recorded positions, with the time they were recorded at.
+   */
+  private _samples: { time: number; x: number; y: number }[] = [];
+
+  /**
+   * Record a position of the pointer.
+   *
+   * @param time The time of the position, in milliseconds
+   * @param x The x position
+   * @param y The y position
+   */
+  addSample(time: number, x: number, y: number): void {
+    this._samples.push({ time, x, y });
+
+    while (
+      this._samples.length > 2 &&
+      time - (this._samples[0]?.time as number) > VELOCITY_WINDOW_MS
+    ) {
+      this._samples.shift();
+    }
+  }
+
+  /**
+   * Get the velocity of the pointer at a time.
+   *
+   * @param time The time to get the velocity at, in milliseconds
+   * @returns The x and y velocity, in pixels per second
+   */
+  getVelocity(time: number): [x: number, y: number] {
+    const last = this._samples[this._samples.length - 1];
+    const first = this._samples.find(
+      sample => (last?.time as number) - sample.time <= VELOCITY_WINDOW_MS
+    );
+
+    if (
+      !first ||
+      !last ||
+      last.time === first.time ||
+      time - last.time > VELOCITY_WINDOW_MS
+    ) {
+      return [0, 0];
+    }
+
+    const elapsed = (last.time - first.time) / 1000;
+
+    return [(last.x - first.x) / elapsed, (last.y - first.y) / elapsed];
+  }
+
+  /**
+   * Forget the recorded positions.
+   */
+  reset(): void {
+    this._samples = [];
+  }
+}
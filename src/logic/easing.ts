@@ -1,4 +1,12 @@
-import type { Easing } from "../types/logic.ts";
+import type {
+  BackEasingOptions,
+  BounceEasingOptions,
+  Easing,
+  EasingDirection,
+  EasingFn,
+  ElasticEasingOptions,
+  StepPosition,
+} from "../types/logic.ts";
 
 export const easing: Easing = {
   linear: t => t,
@@ -74,3 +82,498 @@ export const easing: Easing = {
     return (Math.sqrt(1 - t * t) + 1) / 2;
   },
 };
+
+/**
+ * The precision of the solver of the cubic Bézier curves.
+ */
+const BEZIER_EPSILON = 1e-7;
+
+/**
+ * Creates an easing function following a cubic Bézier curve from
+ * `(0, 0)` to `(1, 1)`, like the CSS `cubic-bezier()` function. The
+ * curve is solved for `x` with the Newton-Raphson method, falling back
+ * to bisection where the slope is too flat.
+ *
+ * @example
+ * ```ts
+ * const ease = cubicBezier(0.25, 0.1, 0.25, 1);
+ * const t = useTween(ease, 300);
+ * ```
+ *
+ * @param x1 The `x` of the first control point, between `0` and `1`
+ * @param y1 The `y` of the first control point
+ * @param x2 The `x` of the second control point, between `0` and `1`
+ * @param y2 The `y` of the second control point
+ * @returns The easing function
+ */
+export const cubicBezier = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): EasingFn => {
+  if (!(x1 >= 0 && x1 <= 1 && x2 >= 0 && x2 <= 1)) {
+    throw new Error(
+      `Expected the x coordinates of a cubic Bézier curve to be between 0 and 1, got ${x1} and ${x2}`
+    );
+  }
+
+  if (x1 === y1 && x2 === y2) {
+    return easing.linear;
+  }
+
+  // The polynomial coefficients of the curve, for x and y
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+  const sampleSlopeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+  const solveX = (x: number) => {
+    let t = x;
+
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(t) - x;
+
+      if (Math.abs(error) < BEZIER_EPSILON) {
+        return t;
+      }
+
+      const slope = sampleSlopeX(t);
+
+      if (Math.abs(slope) < 1e-6) {
+        break;
+      }
+
+      t -= error / slope;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = x;
+
+    while (low < high) {
+      const sample = sampleX(t);
+
+      if (Math.abs(sample - x) < BEZIER_EPSILON) {
+        return t;
+      }
+
+      if (x > sample) {
+        low = t;
+      } else {
+        high = t;
+      }
+
+      if (high - low < BEZIER_EPSILON) {
+        break;
+      }
+
+      t = (low + high) / 2;
+    }
+
+    return t;
+  };
+
+  return t => {
+    if (t <= 0 || t >= 1) {
+      return t <= 0 ? 0 : 1;
+    }
+
+    return sampleY(solveX(t));
+  };
+};
+
+/**
+ * Creates an easing function that jumps between a number of steps,
+ * like the CSS `steps()` function.
+ *
+ * @example
+ * ```ts
+ * const tick = steps(4, "jump-start");
+ *
+ * tick(0.1); // => 0.25
+ * ```
+ *
+ * @param count The number of steps, a positive integer
+ * @param position (Optional) The position of the jumps (Defaults to `"end"`)
+ * @returns The easing function
+ */
+export const steps = (
+  count: number,
+  position: StepPosition = "end"
+): EasingFn => {
+  const jumps =
+    position === "jump-none"
+      ? count - 1
+      : position === "jump-both"
+        ? count + 1
+        : count;
+
+  if (!Number.isInteger(count) || jumps < 1) {
+    throw new Error(
+      `Expected a positive number of steps for the position '${position}', got ${count}`
+    );
+  }
+
+  const jumpsAtStart =
+    position === "start" ||
+    position === "jump-start" ||
+    position === "jump-both";
+
+  return t => {
+    let step = Math.floor(t * count);
+
+    if (jumpsAtStart) {
+      step += 1;
+    }
+
+    if (t >= 0 && step < 0) {
+      step = 0;
+    }
+
+    if (t <= 1 && step > jumps) {
+      step = jumps;
+    }
+
+    return step / jumps;
+  };
+};
+
+/**
+ * Turns an easing function that eases in to an easing function with
+ * a direction.
+ *
+ * @param easeIn The easing function easing in
+ * @param direction The direction of the easing
+ * @returns The easing function with the direction
+ */
+const withDirection = (
+  easeIn: EasingFn,
+  direction: EasingDirection
+): EasingFn => {
+  switch (direction) {
+    case "in":
+      return easeIn;
+    case "out":
+      return t => 1 - easeIn(1 - t);
+    case "inOut":
+      return t => (t < 0.5 ? easeIn(2 * t) / 2 : 1 - easeIn(2 - 2 * t) / 2);
+  }
+};
+
+/**
+ * Creates an easing function that goes back past its start before
+ * easing in, or past its end before settling when easing out.
+ *
+ * @example
+ * ```ts
+ * const ease = backEasing({ direction: "out", overshoot: 2.5 });
+ * ```
+ *
+ * @param options (Optional) The options of the easing
+ * @param options.direction (Optional) The direction of the easing (Defaults to `"out"`)
+ * @param options.overshoot (Optional) How far the easing goes back (Defaults to `1.70158`)
+ * @returns The easing function
+ */
+export const backEasing = (options: BackEasingOptions = {}): EasingFn => {
+  const { direction = "out", overshoot = 1.70158 } = options;
+
+  return withDirection(
+    t => t * t * ((overshoot + 1) * t - overshoot),
+    direction
+  );
+};
+
+/**
+ * Creates an easing function that oscillates like a rubber band,
+ * around its start when easing in, or around its end when easing out.
+ *
+ * @example
+ * ```ts
+ * const ease = elasticEasing({ amplitude: 1.2, period: 0.4 });
+ * ```
+ *
+ * @param options (Optional) The options of the easing
+ * @param options.direction (Optional) The direction of the easing (Defaults to `"out"`)
+ * @param options.amplitude (Optional) The amplitude of the oscillations (Defaults to `1`)
+ * @param options.period (Optional) The period of the oscillations (Defaults to `0.3`)
+ * @returns The easing function
+ */
+export const elasticEasing = (options: ElasticEasingOptions = {}): EasingFn => {
+  const { direction = "out", period = 0.3 } = options;
+  const amplitude = Math.max(1, options.amplitude ?? 1);
+  const shift = (period / (2 * Math.PI)) * Math.asin(1 / amplitude);
+
+  return withDirection(t => {
+    if (t <= 0 || t >= 1) {
+      return t <= 0 ? 0 : 1;
+    }
+
+    return (
+      -amplitude *
+      2 ** (10 * (t - 1)) *
+      Math.sin(((t - 1 - shift) * 2 * Math.PI) / period)
+    );
+  }, direction);
+};
+
+/**
+ * Creates an easing function that bounces like a dropped ball, on its
+ * end when easing out, or on its start when easing in. Each bounce
+ * keeps a ratio of the speed of the previous one; the defaults match
+ * the classic bounce easing.
+ *
+ * @example
+ * ```ts
+ * const ease = bounceEasing({ bounces: 2, restitution: 0.3 });
+ * ```
+ *
+ * @param options (Optional) The options of the easing
+ * @param options.direction (Optional) The direction of the easing (Defaults to `"out"`)
+ * @param options.bounces (Optional) The number of bounces after the first impact (Defaults to `3`)
+ * @param options.restitution (Optional) The ratio of the speed kept on each bounce (Defaults to `0.5`)
+ * @returns The easing function
+ */
+export const bounceEasing = (options: BounceEasingOptions = {}): EasingFn => {
+  const { direction = "out", bounces = 3 } = options;
+  const restitution = Math.min(1, Math.max(0, options.restitution ?? 0.5));
+
+  // The fall takes one unit of time, and each bounce twice its speed
+  const halfDurations: number[] = [];
+  let duration = 1;
+
+  for (let i = 1; i <= bounces; i++) {
+    halfDurations.push(restitution ** i);
+    duration += 2 * restitution ** i;
+  }
+
+  const bounceOut: EasingFn = t => {
+    let time = Math.min(1, Math.max(0, t)) * duration;
+
+    if (time < 1) {
+      return time * time;
+    }
+
+    time -= 1;
+
+    for (const halfDuration of halfDurations) {
+      if (time < 2 * halfDuration) {
+        const fromPeak = time - halfDuration;
+        return 1 - (halfDuration * halfDuration - fromPeak * fromPeak);
+      }
+
+      time -= 2 * halfDuration;
+    }
+
+    return 1;
+  };
+
+  return withDirection(t => 1 - bounceOut(1 - t), direction);
+};
+
+/**
+ * The CSS easing keywords, as cubic Bézier curves.
+ */
+const cssKeywords: Record<string, [number, number, number, number]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Parse a number of a CSS easing function.
+ *
+ * @param value The number to parse
+ * @param css The CSS easing function, for the error message
+ * @returns The parsed number
+ */
+const parseNumber = (value: string | undefined, css: string): number => {
+  const number = value?.trim() ? Number(value) : NaN;
+
+  if (!Number.isFinite(number)) {
+    throw new Error(`Expected a valid CSS easing function, got '${css}'`);
+  }
+
+  return number;
+};
+
+/**
+ * Creates an easing function from the stops of a CSS `linear()`
+ * function, e.g. `"0, 0.25 50%, 1"`.
+ *
+ * @param stops The stops of the function
+ * @param css The CSS easing function, for the error message
+ * @returns The easing function
+ */
+const parseLinear = (stops: string, css: string): EasingFn => {
+  const points: { output: number; input: number | undefined }[] = [];
+
+  for (const stop of stops.split(",")) {
+    const [output, ...inputs] = stop.trim().split(/\s+/);
+
+    if (inputs.length > 2 || inputs.some(input => !input.endsWith("%"))) {
+      throw new Error(`Expected a valid CSS easing function, got '${css}'`);
+    }
+
+    const value = parseNumber(output, css);
+
+    if (inputs.length === 0) {
+      points.push({ output: value, input: undefined });
+    }
+
+    for (const input of inputs) {
+      points.push({
+        output: value,
+        input: parseNumber(input.slice(0, -1), css) / 100,
+      });
+    }
+  }
+
+  if (points.length < 2) {
+    throw new Error(`Expected a valid CSS easing function, got '${css}'`);
+  }
+
+  const first = points[0] as (typeof points)[number];
+  const last = points[points.length - 1] as (typeof points)[number];
+
+  first.input ??= 0;
+  last.input ??= Math.max(1, ...points.map(point => point.input ?? 0));
+
+  // The inputs never go back, and the missing inputs are spread
+  // evenly between the known ones
+  let max = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i] as (typeof points)[number];
+
+    if (point.input === undefined) {
+      let next = i + 1;
+
+      while ((points[next] as (typeof points)[number]).input === undefined) {
+        next++;
+      }
+
+      const nextInput = Math.max(
+        max,
+        (points[next] as (typeof points)[number]).input as number
+      );
+
+      for (let j = i; j < next; j++) {
+        (points[j] as (typeof points)[number]).input =
+          max + ((nextInput - max) * (j - i + 1)) / (next - i + 1);
+      }
+    }
+
+    max = Math.max(max, point.input as number);
+    point.input = max;
+  }
+
+  const inputs = points.map(point => point.input as number);
+  const outputs = points.map(point => point.output);
+
+  return t => {
+    let i = 0;
+
+    while (i < inputs.length - 2 && t >= (inputs[i + 1] as number)) {
+      i++;
+    }
+
+    const inputLow = inputs[i] as number;
+    const inputHigh = inputs[i + 1] as number;
+    const outputLow = outputs[i] as number;
+    const outputHigh = outputs[i + 1] as number;
+
+    if (inputHigh === inputLow) {
+      return t < inputLow ? outputLow : outputHigh;
+    }
+
+    return (
+      outputLow +
+      ((t - inputLow) / (inputHigh - inputLow)) * (outputHigh - outputLow)
+    );
+  };
+};
+
+/**
+ * Creates an easing function from a CSS easing function, so that the
+ * easings specified in CSS work the same in JavaScript. The keywords
+ * (`linear`, `ease`, `ease-in`, `ease-out`, `ease-in-out`, `step-start`,
+ * `step-end`) and the `cubic-bezier()`, `steps()` and `linear()`
+ * functions are supported, as well as the names of the `easing` table.
+ *
+ * @example
+ * ```ts
+ * const t = useTween(parseEasing("cubic-bezier(0.4, 0, 0.2, 1)"), 300);
+ * const stepped = parseEasing("steps(4, jump-end)");
+ * const spring = parseEasing(springToLinearEasing(new SpringConfig(230, 22)));
+ * ```
+ *
+ * @param css The CSS easing function to parse
+ * @returns The easing function
+ */
+export const parseEasing = (css: string): EasingFn => {
+  const value = css.trim();
+
+  if (value === "linear") {
+    return easing.linear;
+  }
+
+  if (value in cssKeywords) {
+    return cubicBezier(
+      ...(cssKeywords[value] as [number, number, number, number])
+    );
+  }
+
+  if (value === "step-start" || value === "step-end") {
+    return steps(1, value === "step-start" ? "jump-start" : "jump-end");
+  }
+
+  if (value in easing) {
+    return easing[value as keyof Easing];
+  }
+
+  const match = /^([a-z-]+)\((.*)\)$/s.exec(value);
+  const [, name, args = ""] = match ?? [];
+
+  if (name === "cubic-bezier") {
+    const points = args.split(",").map(arg => parseNumber(arg, css));
+
+    if (points.length !== 4) {
+      throw new Error(`Expected a valid CSS easing function, got '${css}'`);
+    }
+
+    return cubicBezier(...(points as [number, number, number, number]));
+  }
+
+  if (name === "steps") {
+    const [count, position = "end"] = args.split(",").map(arg => arg.trim());
+
+    if (
+      ![
+        "jump-start",
+        "jump-end",
+        "jump-none",
+        "jump-both",
+        "start",
+        "end",
+      ].includes(position)
+    ) {
+      throw new Error(`Expected a valid CSS easing function, got '${css}'`);
+    }
+
+    return steps(parseNumber(count, css), position as StepPosition);
+  }
+
+  if (name === "linear") {
+    return parseLinear(args, css);
+  }
+
+  throw new Error(`Expected a valid CSS easing function, got '${css}'`);
+};
@@ -0,0 +1,314 @@
+import type {
+  FrameJob,
+  FrameJobOptions,
+  FramePhase,
+  FramePriority,
+  FrameSchedulerOptions,
+  FrameSource,
+} from "../types/logic.ts";
+
+/**
+ * The phases of a frame, in the order they run.
+ */
+const framePhases: FramePhase[] = ["read", "update", "write"];
+
+/**
+ * The priorities of the jobs, in the order they run within a phase.
+ */
+const framePriorities: FramePriority[] = ["high", "normal", "low"];
+
+/**
+ * Get the current time in milliseconds, with `performance.now` where
+ * it is available.
+ *
+ * @returns The current time
+ */
+const defaultNow = (): number =>
+  typeof performance !== "undefined" ? performance.now() : Date.now();
+
+/**
+ * Schedules the work of each frame, so that a single frame request
+ * serves every spring and `requestAnimationFrame` based hook.
+ *
+ * Each frame is split into phases: the `read` jobs measure the DOM,
+ * then the `update` jobs compute, then the `write` jobs mutate the
+ * DOM. Batching the reads before the writes keeps the jobs from
+ * forcing the browser to lay out the page more than once per frame.
+ * Within a phase, the jobs run by priority. Once the jobs of a frame
+ * took longer than the frame budget, the remaining low priority jobs
+ * are deferred to the next frame.
+ *
+ * A job scheduled while a frame runs runs in the same frame if its
+ * phase is still to come, or in the next frame otherwise.
+ *
+ * @example
+ * ```ts
+ * const scheduler = getFrameScheduler();
+ *
+ * scheduler.schedule(() => (height = element.offsetHeight), { phase: "read" });
+ * scheduler.schedule(() => (other.style.height = `${height}px`), { phase: "write" });
+ *
+ * const removeJob = scheduler.addJob(time => analytics.sample(time), {
+ *   priority: "low",
+ * });
+ * ```
+ *
+ * **Methods**
+ * - `schedule` - Schedule a job to run on the next frame
+ * - `addJob` - Add a job to run on every frame
+ * - `cancel` - Cancel a job
+ * - `isIdle` - Check if there are no jobs to run
+ * - `resetFrameSource` - Request the next frame again, after the frame source changed
+ *
+ * **Static Properties**
+ * - `DEFAULT_FRAME_BUDGET` - The default frame budget, in milliseconds
+ *
+ * **Properties**
+ * - `frameBudget` - The time the jobs of a frame can take before the low priority jobs are deferred
+ */
+export class FrameScheduler {
+  /**
+   * The default frame budget, in milliseconds. It leaves the rest of
+   * a frame at 60 frames per second to the browser.
+   */
+  static DEFAULT_FRAME_BUDGET: number = 8;
+
+  /**
+   * The time the jobs of a frame can take, in milliseconds, before the
+   * low priority jobs are deferred to the next frame.
+   */
+  frameBudget: number;
+
+  /**
+   * The source of the frames.
+   */
+  private _frameSource: FrameSource;
+  /**
+   * Get the current time in milliseconds.
+   */
+  private _now: () => number;
+  /**
+   * Helper for iterating job IDs.
+   */
+  private _jobId: number = 0;
+  /**
+   * The jobs that are still to run, by ID.
+   */
+  private _jobs: Map<number, FrameJob> = new Map();
+  /**
+   * The jobs to run in each phase.
+   */
+  private _queues: Record<FramePhase, FrameJob[]> = {
+    read: [],
+    update: [],
+    write: [],
+  };
+  /**
+   * The ID of the frame request, if a frame is requested.
+   */
+  private _frameId: number | null = null;
+  /**
+   * Helper for telling the current frame request from the stale ones.
+   */
+  private _frameToken: number = 0;
+  /**
+   * The phase that is running, if a frame is running.
+   */
+  private _phase: FramePhase | null = null;
+
+  /**
+   * @constructor
+   * @param frameSource The source of the frames
+   * @param options (Optional) The options of the scheduler
+   * @param options.frameBudget (Optional) The time the jobs of a frame can take, in milliseconds (Defaults to `FrameScheduler.DEFAULT_FRAME_BUDGET`)
+   * @param options.now (Optional) Get the current time in milliseconds (Defaults to `performance.now`)
+   */
+  constructor(frameSource: FrameSource, options: FrameSchedulerOptions = {}) {
+    this._frameSource = frameSource;
+    this.frameBudget =
+      options.frameBudget ?? FrameScheduler.DEFAULT_FRAME_BUDGET;
+    this._now = options.now ?? defaultNow;
+  }
+
+  /**
+   * Schedule a job to run once, on the next frame.
+   *
+   * @param callback The callback of the job, called with the time of the frame
+   * @param options (Optional) The options of the job
+   * @param options.phase (Optional) The phase of the frame to run the job in (Defaults to `"update"`)
+   * @param options.priority (Optional) The priority of the job within its phase (Defaults to `"normal"`)
+   * @returns The ID of the job
+   */
+  schedule(callback: FrameRequestCallback, options?: FrameJobOptions): number {
+    return this.add(callback, options, false);
+  }
+
+  /**
+   * Add a job to run on every frame, until it is removed.
+   *
+   * @param callback The callback of the job, called with the time of each frame
+   * @param options (Optional) The options of the job
+   * @param options.phase (Optional) The phase of the frame to run the job in (Defaults to `"update"`)
+   * @param options.priority (Optional) The priority of the job within its phase (Defaults to `"normal"`)
+   * @returns A function to remove the job
+   */
+  addJob(
+    callback: FrameRequestCallback,
+    options?: FrameJobOptions
+  ): () => void {
+    const id = this.add(callback, options, true);
+
+    return () => this.cancel(id);
+  }
+
+  /**
+   * Cancel a job, scheduled with `schedule` or added with `addJob`.
+   *
+   * @param id The ID of the job
+   */
+  cancel(id: number): void {
+    this._jobs.delete(id);
+
+    if (this._jobs.size > 0) {
+      return;
+    }
+
+    this._queues = { read: [], update: [], write: [] };
+
+    if (this._frameId !== null) {
+      this._frameSource.cancelFrame(this._frameId);
+      this._frameId = null;
+    }
+  }
+
+  /**
+   * Check if there are no jobs to run.
+   *
+   * @returns Whether the scheduler is idle
+   */
+  isIdle(): boolean {
+    return this._jobs.size === 0;
+  }
+
+  /**
+   * Request the next frame again, e.g. after an animation clock was
+   * installed, since the frame requested from the previous source may
+   * never come.
+   */
+  resetFrameSource(): void {
+    this._frameId = null;
+
+    if (this._jobs.size > 0 && this._phase === null) {
+      this.requestFrame();
+    }
+  }
+
+  /**
+   * Add a job to the queue of its phase.
+   *
+   * @param callback The callback of the job
+   * @param options The options of the job
+   * @param repeat Whether the job runs on every frame
+   * @returns The ID of the job
+   */
+  private add(
+    callback: FrameRequestCallback,
+    options: FrameJobOptions = {},
+    repeat: boolean
+  ): number {
+    const { phase = "update", priority = "normal" } = options;
+    const job: FrameJob = {
+      id: ++this._jobId,
+      callback,
+      phase,
+      priority,
+      repeat,
+    };
+
+    this._jobs.set(job.id, job);
+    this._queues[phase].push(job);
+
+    // A frame that is running requests the next one once it is done
+    if (this._phase === null) {
+      this.requestFrame();
+    }
+
+    return job.id;
+  }
+
+  /**
+   * Request a frame from the frame source, if none is requested.
+   */
+  private requestFrame(): void {
+    if (this._frameId !== null) {
+      return;
+    }
+
+    const token = ++this._frameToken;
+
+    this._frameId = this._frameSource.requestFrame(time => {
+      if (token === this._frameToken) {
+        this.runFrame(time);
+      }
+    });
+  }
+
+  /**
+   * Run the jobs of a frame, phase by phase.
+   *
+   * @param time The time of the frame
+   */
+  private runFrame(time: number): void {
+    const start = this._now();
+    let error: unknown = null;
+    let hasError = false;
+
+    this._frameId = null;
+
+    for (const phase of framePhases) {
+      const queue = this._queues[phase];
+
+      this._phase = phase;
+      this._queues[phase] = [];
+
+      for (const priority of framePriorities) {
+        for (const job of queue) {
+          if (job.priority !== priority || this._jobs.get(job.id) !== job) {
+            continue;
+          }
+
+          if (priority === "low" && this._now() - start > this.frameBudget) {
+            this._queues[phase].push(job);
+            continue;
+          }
+
+          if (job.repeat) {
+            this._queues[phase].push(job);
+          } else {
+            this._jobs.delete(job.id);
+          }
+
+          // A job that throws doesn't keep the other jobs from running
+          try {
+            job.callback(time);
+          } catch (jobError) {
+            if (!hasError) {
+              error = jobError;
+              hasError = true;
+            }
+          }
+        }
+      }
+    }
+
+    this._phase = null;
+
+    if (this._jobs.size > 0) {
+      this.requestFrame();
+    }
+
+    if (hasError) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import type { FrameStats, FrameStatsOptions } from "../types/logic.ts";
+
+/**
+ * Get a percentile of sorted values, interpolating between the two
+ * values closest to it.
+ *
+ * @example
+ * ```ts
+ * getPercentile([10, 20, 30, 40], 50); // => 25
+ * getPercentile([10, 20, 30, 40], 100); // => 40
+ * ```
+ *
+ * @param sortedValues The values, sorted in ascending order
+ * @param percentile The percentile to get, between `0` and `100`
+ * @returns The value at the percentile, or `0` if there are no values
+ */
+export const getPercentile = (
+  sortedValues: number[],
+  percentile: number
+): number => {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const rank =
+    (Math.min(100, Math.max(0, percentile)) / 100) * (sortedValues.length - 1);
+  const lower = sortedValues[Math.floor(rank)] as number;
+  const upper = sortedValues[Math.ceil(rank)] as number;
+
+  return lower + (upper - lower) * (rank - Math.floor(rank));
+};
+
+/**
+ * Measures the frame rate from the times of the frames. The frame rate
+ * and the percentiles are computed over the recent frames, while the
+ * dropped and long frames are counted since the tracker started.
+ *
+ * A frame that comes later than the target frame rate expects counts
+ * the frames that were missed in between as dropped, e.g. a frame
+ * 50 milliseconds after the previous one at 60 frames per second
+ * drops 2 frames.
+ *
+ * The tracker only does the math, so that it can be fed with the times
+ * of a mocked clock. See `{@link useFrameStats}` to track the frames
+ * of a component.
+ *
+ * @example
+ * ```ts
+ * const tracker = new FrameStatsTracker({ targetFps: 60 });
+ *
+ * tracker.addFrame(0);
+ * tracker.addFrame(25);
+ * tracker.addFrame(80);
+ *
+ * tracker.getStats(); // => { fps: 25, droppedFrames: 3, longFrames: 1, ... }
+ * ```
+ *
+ * **Methods**
+ * - `addFrame` - Record a frame
+ * - `getStats` - Get the statistics of the recorded frames
+ * - `reset` - Forget the recorded frames
+ *
+ * **Static Properties**
+ * - `DEFAULT_SAMPLE_SIZE` - The default number of recent frames
+ * - `DEFAULT_TARGET_FPS` - The default target frame rate
+ * - `DEFAULT_LONG_FRAME_THRESHOLD` - The default long frame threshold, in milliseconds
+ *
+ * **Properties**
+ * - `sampleSize` - The number of recent frames to compute the frame rate and the percentiles over
+ * - `targetFps` - The frame rate to count the dropped frames against
+ * - `longFrameThreshold` - The time between two frames above which a frame is a long frame
+ */
+export class FrameStatsTracker {
+  /**
+   * The default number of recent frames, two seconds at 60 frames
+   * per second.
+   */
+  static DEFAULT_SAMPLE_SIZE: number = 120;
+  /**
+   * The default frame rate to count the dropped frames against.
+   */
+  static DEFAULT_TARGET_FPS: number = 60;
+  /**
+   * The default long frame threshold, in milliseconds, the same as
+   * the one of the long tasks of the browser.
+   */
+  static DEFAULT_LONG_FRAME_THRESHOLD: number = 50;
+
+  /**
+   * The number of recent frames to compute the frame rate and the
+   * percentiles over.
+   */
+  sampleSize: number;
+  /**
+   * The frame rate to count the dropped frames against.
+   */
+  targetFps: number;
+  /**
+   * The time between two frames, in milliseconds, above which a frame
+   * is a long frame.
+   */
+  longFrameThreshold: number;
+
+  /**
+   * The time of the last frame, if a frame was recorded.
+   */
+  private _lastTime: number | null = null;
+  /**
+   * The times between the recent frames, in milliseconds.
+   */
+  private _frameTimes: number[] = [];
+  /**
+   * The number of frames measured since the tracker started.
+   */
+  private _frameCount: number = 0;
+  /**
+   * The number of frames missed since the tracker started.
+   */
+  private _droppedFrames: number = 0;
+  /**
+   * The number of long frames since the tracker started.
+   */
+  private _longFrames: number = 0;
+
+  /**
+   * @constructor
+   * @param options (Optional) The options of the tracker
+   * @param options.sampleSize (Optional) The number of recent frames to compute the frame rate and the percentiles over (Defaults to `120`)
+   * @param options.targetFps (Optional) The frame rate to count the dropped frames against (Defaults to `60`)
+   * @param options.longFrameThreshold (Optional) The time between two frames, in milliseconds, above which a frame is a long frame (Defaults to `50`)
+   */
+  constructor(options: FrameStatsOptions = {}) {
+    this.sampleSize =
+      options.sampleSize ?? FrameStatsTracker.DEFAULT_SAMPLE_SIZE;
+    this.targetFps = options.targetFps ?? FrameStatsTracker.DEFAULT_TARGET_FPS;
+    this.longFrameThreshold =
+      options.longFrameThreshold ??
+      FrameStatsTracker.DEFAULT_LONG_FRAME_THRESHOLD;
+  }
+
+  /**
+   * Record a frame. The first frame only starts the measure, since
+   * there is no previous frame to measure the time from.
+   *
+   * @param time The time of the frame, in milliseconds
+   */
+  addFrame(time: number): void {
+    const lastTime = this._lastTime;
+
+    this._lastTime = time;
+
+    if (lastTime === null || time <= lastTime) {
+      return;
+    }
+
+    const frameTime = time - lastTime;
+    const targetFrameTime = 1000 / this.targetFps;
+
+    this._frameTimes.push(frameTime);
+
+    if (this._frameTimes.length > this.sampleSize) {
+      this._frameTimes.shift();
+    }
+
+    this._frameCount++;
+    this._droppedFrames += Math.max(
+      0,
+      Math.round(frameTime / targetFrameTime) - 1
+    );
+
+    if (frameTime > this.longFrameThreshold) {
+      this._longFrames++;
+    }
+  }
+
+  /**
+   * Get the statistics of the recorded frames.
+   *
+   * @returns The statistics of the frames
+   */
+  getStats(): FrameStats {
+    const frameTimes = this._frameTimes;
+    const sortedFrameTimes = [...frameTimes].sort((a, b) => a - b);
+    const totalTime = frameTimes.reduce((total, time) => total + time, 0);
+    const averageFrameTime =
+      frameTimes.length > 0 ? totalTime / frameTimes.length : 0;
+
+    return {
+      fps: averageFrameTime > 0 ? 1000 / averageFrameTime : 0,
+      averageFrameTime,
+      maxFrameTime: sortedFrameTimes[sortedFrameTimes.length - 1] ?? 0,
+      p50: getPercentile(sortedFrameTimes, 50),
+      p95: getPercentile(sortedFrameTimes, 95),
+      p99: getPercentile(sortedFrameTimes, 99),
+      frameCount: this._frameCount,
+      droppedFrames: this._droppedFrames,
+      longFrames: this._longFrames,
+    };
+  }
+
+  /**
+   * Forget the recorded frames, e.g. when the measure pauses, so that
+   * the pause doesn't count as dropped frames.
+   */
+  reset(): void {
+    this._lastTime = null;
+    this._frameTimes = [];
+    this._frameCount = 0;
+    this._droppedFrames = 0;
+    this._longFrames = 0;
+  }
+}
@@ -1,9 +1,20 @@
+export * from "./animatedValue.ts";
 export * from "./animation.ts";
+export * from "./animationClock.ts";
+export * from "./colors.ts";
 export * from "./cookies.ts";
+export * from "./drag.ts";
 export * from "./easing.ts";
+export * from "./frameScheduler.ts";
+export * from "./frameStats.ts";
 export * from "./harmonicInterval.ts";
 export * from "./keystrokes.ts";
+export * from "./layout.ts";
 export * from "./resolveHookState.ts";
 export * from "./screenfull.ts";
+export * from "./scroll.ts";
 export * from "./scrollbarWidth.ts";
 export * from "./springs.ts";
+export * from "./springSolver.ts";
+export * from "./styleBatch.ts";
+export * from "./webAnimation.ts";
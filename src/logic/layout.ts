@@ -0,0 +1,136 @@
+import type { LayoutBox, LayoutTransform } from "../types/logic.ts";
+
+import { requestFrame } from "./animationClock.ts";
+
+/**
+ * The transform that leaves a layout box as it is.
+ */
+export const identityLayoutTransform: LayoutTransform = {
+  translateX: 0,
+  translateY: 0,
+  scaleX: 1,
+  scaleY: 1,
+};
+
+/**
+ * Measures the layout box of an element in the page, without the
+ * transform of the element, including the transform of the web
+ * animations running on it.
+ *
+ * @param element The element to measure
+ * @returns The layout box of the element
+ */
+export const measureLayout = (element: HTMLElement | SVGElement): LayoutBox => {
+  const { transform } = element.style;
+
+  // The effects of the web animations are detached while measuring,
+  // since they apply over the inline style. The animations keep their
+  // timing, and show their effects again once they are reattached.
+  const animations =
+    typeof element.getAnimations === "function" ? element.getAnimations() : [];
+  const effects = animations.map(animation => animation.effect);
+
+  animations.forEach(animation => (animation.effect = null));
+  element.style.transform = "none";
+  const rect = element.getBoundingClientRect();
+  element.style.transform = transform;
+  animations.forEach((animation, i) => (animation.effect = effects[i] ?? null));
+
+  return {
+    x: rect.left + window.scrollX,
+    y: rect.top + window.scrollY,
+    width: rect.width,
+    height: rect.height,
+  };
+};
+
+/**
+ * Check if two layout boxes are the same, within half a pixel.
+ *
+ * @param a The first layout box
+ * @param b The second layout box
+ * @returns Whether the layout boxes are the same
+ */
+export const isSameLayout = (a: LayoutBox, b: LayoutBox): boolean =>
+  Math.abs(a.x - b.x) < 0.5 &&
+  Math.abs(a.y - b.y) < 0.5 &&
+  Math.abs(a.width - b.width) < 0.5 &&
+  Math.abs(a.height - b.height) < 0.5;
+
+/**
+ * Get the box that a layout box is seen at on screen, once it is
+ * moved by a transform around its center.
+ *
+ * @param box The layout box
+ * @param transform The transform of the box
+ * @returns The box on screen
+ */
+export const getVisualBox = (
+  box: LayoutBox,
+  transform: LayoutTransform
+): LayoutBox => {
+  const width = box.width * transform.scaleX;
+  const height = box.height * transform.scaleY;
+
+  return {
+    x: box.x + transform.translateX + (box.width - width) / 2,
+    y: box.y + transform.translateY + (box.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Get the transform that makes a layout box look like another box,
+ * which inverts the change of a layout in a FLIP animation: the
+ * element is moved back to where it was seen, and the transform is
+ * animated back to the identity.
+ *
+ * @param from The box to look like, e.g. the previous box on screen
+ * @param to The layout box to transform
+ * @returns The transform of the layout box
+ */
+export const invertLayout = (
+  from: LayoutBox,
+  to: LayoutBox
+): LayoutTransform => ({
+  translateX: from.x + from.width / 2 - (to.x + to.width / 2),
+  translateY: from.y + from.height / 2 - (to.y + to.height / 2),
+  scaleX: to.width ? from.width / to.width : 1,
+  scaleY: to.height ? from.height / to.height : 1,
+});
+
+/**
+ * The last boxes on screen of the elements that left a shared layout.
+ */
+const layoutSnapshots = new Map<string, LayoutBox>();
+
+/**
+ * Save the box on screen of an element that leaves a shared layout,
+ * for the next element with the same layout ID to animate from. The
+ * snapshot is dropped on the next frame if no element takes it.
+ *
+ * @param layoutId The ID of the shared layout
+ * @param box The box on screen of the element
+ */
+export const setLayoutSnapshot = (layoutId: string, box: LayoutBox): void => {
+  layoutSnapshots.set(layoutId, box);
+
+  requestFrame(() => {
+    if (layoutSnapshots.get(layoutId) === box) {
+      layoutSnapshots.delete(layoutId);
+    }
+  });
+};
+
+/**
+ * Take the box on screen of the element that left a shared layout.
+ *
+ * @param layoutId The ID of the shared layout
+ * @returns The box on screen of the element, or `null` if there is none
+ */
+export const takeLayoutSnapshot = (layoutId: string): LayoutBox | null => {
+  const box = layoutSnapshots.get(layoutId) ?? null;
+  layoutSnapshots.delete(layoutId);
+  return box;
+};
@@ -0,0 +1,243 @@
+import type {
+  ScrollAxis,
+  ScrollEdge,
+  ScrollIntersection,
+  ScrollOffset,
+} from "../types/logic.ts";
+
+/**
+ * The fractions of a length that the named edges are at.
+ */
+const namedEdges = {
+  start: 0,
+  center: 0.5,
+  end: 1,
+};
+
+/**
+ * The offset of an element passing through a viewport: from when its
+ * start enters the viewport to when its end leaves it.
+ */
+export const defaultElementScrollOffset: ScrollOffset = [
+  "start end",
+  "end start",
+];
+
+/**
+ * The offset of the content of a viewport: from when it is scrolled
+ * to its start to when it is scrolled to its end.
+ */
+export const defaultContentScrollOffset: ScrollOffset = [
+  "start start",
+  "end end",
+];
+
+/**
+ * Parses an edge to the fraction of a length it is at.
+ *
+ * @param edge The edge to parse
+ * @returns The fraction of the length
+ */
+const parseScrollEdge = (edge: ScrollEdge): number =>
+  typeof edge === "number" ? edge : namedEdges[edge] ?? 0;
+
+/**
+ * Parses an intersection to the fractions of the target and of the
+ * viewport that meet.
+ *
+ * @example
+ * ```ts
+ * parseScrollIntersection("start end"); // => [0, 1]
+ * parseScrollIntersection(["center", 0.25]); // => [0.5, 0.25]
+ * ```
+ *
+ * @param intersection The intersection to parse
+ * @returns The fractions of the target and of the viewport
+ */
+export const parseScrollIntersection = (
+  intersection: ScrollIntersection
+): [target: number, viewport: number] => {
+  const [target = "start", viewport = "start"] = (
+    typeof intersection === "string"
+      ? intersection.trim().split(/\s+/)
+      : intersection
+  ) as ScrollEdge[];
+
+  return [parseScrollEdge(target), parseScrollEdge(viewport)];
+};
+
+/**
+ * Get the scroll position of a scroll container.
+ *
+ * @param container The scroll container
+ * @param axis (Optional) The axis of the scroll position (Defaults to `"y"`)
+ * @returns The scroll position, in pixels
+ */
+export const getScrollPosition = (
+  container: Element | Window,
+  axis: ScrollAxis = "y"
+): number => {
+  if (!("getBoundingClientRect" in container)) {
+    return axis === "x" ? window.scrollX : window.scrollY;
+  }
+
+  return axis === "x" ? container.scrollLeft : container.scrollTop;
+};
+
+/**
+ * Set the scroll position of a scroll container at once, even when
+ * its CSS `scroll-behavior` is `smooth`.
+ *
+ * @param container The scroll container
+ * @param axis The axis of the scroll position
+ * @param position The scroll position, in pixels
+ */
+export const setScrollPosition = (
+  container: Element | Window,
+  axis: ScrollAxis,
+  position: number
+): void => {
+  const side = axis === "x" ? "left" : "top";
+
+  if (typeof container.scrollTo === "function") {
+    container.scrollTo({ [side]: position, behavior: "instant" });
+  } else if (axis === "x") {
+    (container as Element).scrollLeft = position;
+  } else {
+    (container as Element).scrollTop = position;
+  }
+};
+
+/**
+ * Get the highest scroll position of a scroll container.
+ *
+ * @param container The scroll container
+ * @param axis (Optional) The axis of the scroll position (Defaults to `"y"`)
+ * @returns The highest scroll position, in pixels
+ */
+export const getMaxScrollPosition = (
+  container: Element | Window,
+  axis: ScrollAxis = "y"
+): number => {
+  if (!("getBoundingClientRect" in container)) {
+    const { documentElement } = document;
+
+    return axis === "x"
+      ? documentElement.scrollWidth - window.innerWidth
+      : documentElement.scrollHeight - window.innerHeight;
+  }
+
+  return axis === "x"
+    ? container.scrollWidth - container.clientWidth
+    : container.scrollHeight - container.clientHeight;
+};
+
+/**
+ * Get the scroll position of a scroll container at which an element
+ * inside it is at the start of its viewport.
+ *
+ * @param container The scroll container
+ * @param element The element inside the container
+ * @param axis (Optional) The axis of the scroll position (Defaults to `"y"`)
+ * @returns The scroll position, in pixels
+ */
+export const getElementScrollPosition = (
+  container: Element | Window,
+  element: Element,
+  axis: ScrollAxis = "y"
+): number => {
+  const side = axis === "x" ? "left" : "top";
+  const position =
+    element.getBoundingClientRect()[side] + getScrollPosition(container, axis);
+
+  if (!("getBoundingClientRect" in container)) {
+    return position;
+  }
+
+  return (
+    position -
+    container.getBoundingClientRect()[side] -
+    (axis === "x" ? container.clientLeft : container.clientTop)
+  );
+};
+
+/**
+ * Get the progress of a target scrolling through the viewport of a
+ * scroll container, between `0` and `1`.
+ *
+ * The target is an element inside the container, or the content of
+ * the container when the target is `null` or the container itself.
+ * The progress is `0` at the start intersection of the offset, and
+ * `1` at its end intersection.
+ *
+ * @example
+ * ```ts
+ * // The progress of an element passing through the window
+ * getScrollProgress(element, window);
+ * // The progress of scrolling a list, from its start to its end
+ * getScrollProgress(null, list);
+ * ```
+ *
+ * @param target The element scrolling through the viewport, or `null` for the content of the container
+ * @param container The scroll container
+ * @param offset (Optional) The intersections the progress goes from `0` to `1` between (Defaults to `["start end", "end start"]` for an element, and `["start start", "end end"]` for the content)
+ * @param axis (Optional) The axis to measure the progress along (Defaults to `"y"`)
+ * @returns The scroll progress
+ */
+export const getScrollProgress = (
+  target: Element | null,
+  container: Element | Window,
+  offset?: ScrollOffset,
+  axis: ScrollAxis = "y"
+): number => {
+  const isContent = !target || target === container;
+  const isWindow = !("getBoundingClientRect" in container);
+  const side = axis === "x" ? "left" : "top";
+  const size = axis === "x" ? "width" : "height";
+  const scrollElement = isWindow
+    ? document.documentElement
+    : (container as Element);
+
+  const viewportStart = isWindow
+    ? 0
+    : (container as Element).getBoundingClientRect()[side];
+  const viewportLength = isWindow
+    ? axis === "x"
+      ? window.innerWidth
+      : window.innerHeight
+    : axis === "x"
+      ? scrollElement.clientWidth
+      : scrollElement.clientHeight;
+
+  let targetStart: number;
+  let targetLength: number;
+
+  if (isContent) {
+    targetStart = viewportStart - getScrollPosition(container, axis);
+    targetLength =
+      axis === "x" ? scrollElement.scrollWidth : scrollElement.scrollHeight;
+  } else {
+    const rect = (target as Element).getBoundingClientRect();
+
+    targetStart = rect[side];
+    targetLength = rect[size];
+  }
+
+  const [start, end] =
+    offset ??
+    (isContent ? defaultContentScrollOffset : defaultElementScrollOffset);
+  const [startTarget, startViewport] = parseScrollIntersection(start);
+  const [endTarget, endViewport] = parseScrollIntersection(end);
+
+  // Where the start of the target is at the intersections
+  const from =
+    viewportStart + startViewport * viewportLength - startTarget * targetLength;
+  const to =
+    viewportStart + endViewport * viewportLength - endTarget * targetLength;
+
+  if (from === to) {
+    return targetStart < from ? 1 : 0;
+  }
+
+  return Math.min(1, Math.max(0, (targetStart - from) / (to - from)));
+};
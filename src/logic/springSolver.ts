@@ -0,0 +1,302 @@
+import type {
+  EasingFn,
+  SpringKeyframes,
+  SpringKeyframesOptions,
+  SpringSamplingOptions,
+  SpringSolution,
+  SpringSolverOptions,
+} from "../types/logic.ts";
+
+import type { SpringConfig } from "./springs.ts";
+
+/**
+ * The longest a spring is solved for, in milliseconds.
+ */
+const MAX_DURATION_MS = 60000;
+
+/**
+ * The duration of a frame at 60fps, in milliseconds.
+ */
+const FRAME_MS = 1000 / 60;
+
+/**
+ * Rounds a sampled value to keep the generated CSS short.
+ *
+ * @param n The value to round
+ * @returns The value rounded to 4 decimals
+ */
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+/**
+ * Solves the motion of a spring analytically, instead of
+ * integrating it frame by frame like a `{@link Spring}` does.
+ *
+ * The spring follows `m * x'' = -tension * x - friction * x'`, where
+ * `x` is the displacement from the end value. The tension and friction
+ * of the SpringConfig are the ones a `{@link Spring}` uses (with a mass
+ * of `1`), so the solution matches the motion of a Spring created with
+ * the same config.
+ *
+ * @example
+ * ```ts
+ * const { duration, position } = solveSpring(new SpringConfig(230, 22));
+ *
+ * duration; // => 851
+ * position(duration / 2); // ~1.012
+ * ```
+ *
+ * @param springConfig The SpringConfig to solve
+ * @param options (Optional) The options of the solver
+ * @param options.from (Optional) The value the spring starts at (Defaults to `0`)
+ * @param options.to (Optional) The value the spring comes to rest at (Defaults to `1`)
+ * @param options.velocity (Optional) The initial velocity of the spring, in units per second (Defaults to `0`)
+ * @param options.mass (Optional) The mass attached to the spring (Defaults to `1`)
+ * @param options.dampingRatio (Optional) The damping ratio of the spring, overriding the friction
+ * @param options.restDisplacementThreshold (Optional) The displacement below which the spring is at rest (Defaults to `0.001`)
+ * @param options.restSpeedThreshold (Optional) The speed below which the spring is at rest (Defaults to `0.001`)
+ * @returns The solution of the spring
+ */
+export const solveSpring = (
+  springConfig: SpringConfig,
+  options: SpringSolverOptions = {}
+): SpringSolution => {
+  const {
+    from = 0,
+    to = 1,
+    velocity: v0 = 0,
+    mass = 1,
+    dampingRatio,
+    restDisplacementThreshold = 0.001,
+    restSpeedThreshold = 0.001,
+  } = options;
+
+  const { tension } = springConfig;
+
+  if (tension <= 0 || mass <= 0) {
+    throw new Error(
+      "Expected a spring with a positive tension and mass to solve"
+    );
+  }
+
+  const x0 = from - to;
+  const omega = Math.sqrt(tension / mass);
+  const zeta =
+    dampingRatio ?? springConfig.friction / (2 * Math.sqrt(tension * mass));
+
+  let displacement: (t: number) => number;
+  let speed: (t: number) => number;
+
+  if (zeta < 1) {
+    // Under-damped: the spring oscillates around the end value
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    const b = (v0 + zeta * omega * x0) / omegaD;
+
+    displacement = t =>
+      Math.exp(-zeta * omega * t) *
+      (x0 * Math.cos(omegaD * t) + b * Math.sin(omegaD * t));
+    speed = t =>
+      Math.exp(-zeta * omega * t) *
+      ((b * omegaD - zeta * omega * x0) * Math.cos(omegaD * t) -
+        (x0 * omegaD + zeta * omega * b) * Math.sin(omegaD * t));
+  } else if (zeta === 1) {
+    // Critically damped: the fastest approach without oscillating
+    const b = v0 + omega * x0;
+
+    displacement = t => Math.exp(-omega * t) * (x0 + b * t);
+    speed = t => Math.exp(-omega * t) * (b - omega * (x0 + b * t));
+  } else {
+    // Over-damped: the spring crawls to the end value
+    const root = Math.sqrt(zeta * zeta - 1);
+    const r1 = -omega * (zeta - root);
+    const r2 = -omega * (zeta + root);
+    const c2 = (v0 - r1 * x0) / (r2 - r1);
+    const c1 = x0 - c2;
+
+    displacement = t => c1 * Math.exp(r1 * t) + c2 * Math.exp(r2 * t);
+    speed = t => c1 * r1 * Math.exp(r1 * t) + c2 * r2 * Math.exp(r2 * t);
+  }
+
+  let duration = 0;
+
+  while (
+    duration < MAX_DURATION_MS &&
+    (Math.abs(displacement(duration / 1000)) > restDisplacementThreshold ||
+      Math.abs(speed(duration / 1000)) > restSpeedThreshold)
+  ) {
+    duration += 1;
+  }
+
+  return {
+    duration,
+    position: time =>
+      time >= duration ? to : to + displacement(Math.max(0, time) / 1000),
+    velocity: time => (time >= duration ? 0 : speed(Math.max(0, time) / 1000)),
+  };
+};
+
+/**
+ * Samples the progress of a spring going from `0` to `1`, evenly
+ * spaced in time.
+ *
+ * @param springConfig The SpringConfig to sample
+ * @param options The options of the sampling
+ * @returns The duration of the spring and the sampled progress values
+ */
+const sampleSpring = (
+  springConfig: SpringConfig,
+  options: SpringSamplingOptions
+) => {
+  const solution = solveSpring(springConfig, options);
+  const samples = Math.max(
+    2,
+    options.samples ?? Math.ceil(solution.duration / FRAME_MS) + 1
+  );
+  const values: number[] = [];
+
+  for (let i = 0; i < samples; i++) {
+    values.push(solution.position((solution.duration * i) / (samples - 1)));
+  }
+
+  return { duration: solution.duration, values };
+};
+
+/**
+ * Get the time it takes a spring to come to rest.
+ *
+ * @param springConfig The SpringConfig to solve
+ * @param options (Optional) The options of the solver
+ * @returns The settle duration of the spring, in milliseconds
+ */
+export const getSpringDuration = (
+  springConfig: SpringConfig,
+  options: SpringSolverOptions = {}
+): number => solveSpring(springConfig, options).duration;
+
+/**
+ * Creates an easing function following the curve of a spring,
+ * normalized to the time it takes the spring to come to rest.
+ * The easing function can be used with `{@link useTween}`.
+ *
+ * @example
+ * ```ts
+ * const easing = springToEasing(new SpringConfig(230, 22));
+ * const t = useTween(easing, getSpringDuration(new SpringConfig(230, 22)));
+ * ```
+ *
+ * @param springConfig The SpringConfig to follow
+ * @param options (Optional) The options of the solver (`from` and `to` default to `0` and `1`)
+ * @returns The easing function
+ */
+export const springToEasing = (
+  springConfig: SpringConfig,
+  options: SpringSolverOptions = {}
+): EasingFn => {
+  const { duration, position } = solveSpring(springConfig, options);
+  return t => position(t * duration);
+};
+
+/**
+ * Converts the curve of a spring to a CSS `linear()` easing function,
+ * to run spring motion with pure CSS transitions and animations. The
+ * easing should be used with the duration of the spring, see
+ * `{@link getSpringDuration}` and `{@link springToCSSTransition}`.
+ *
+ * @example
+ * ```ts
+ * springToLinearEasing(new SpringConfig(230, 22));
+ * // => "linear(0, 0.0273, 0.0964, 0.1911, ..., 1)"
+ * ```
+ *
+ * The easing always goes from `0` to `1`, so the `from` and `to`
+ * options are ignored and the `velocity` is in progress per second.
+ *
+ * @param springConfig The SpringConfig to convert
+ * @param options (Optional) The options of the sampling
+ * @param options.samples (Optional) The number of points of the easing (Defaults to one point per frame at 60fps)
+ * @returns The CSS `linear()` easing function
+ */
+export const springToLinearEasing = (
+  springConfig: SpringConfig,
+  options: SpringSamplingOptions = {}
+): string => {
+  const { values } = sampleSpring(springConfig, { ...options, from: 0, to: 1 });
+
+  return `linear(${values.map(round).join(", ")})`;
+};
+
+/**
+ * Converts the curve of a spring to a CSS transition, e.g.
+ * `"opacity 851ms linear(...)"`. This makes it possible to match the
+ * springs of the `{@link Animate}` component (tension `230` and friction
+ * `22` by default) with plain CSS transitions.
+ *
+ * @example
+ * ```tsx
+ * const transition = springToCSSTransition(
+ *   new SpringConfig(230, 22),
+ *   ["opacity", "transform"]
+ * );
+ *
+ * return <div style={{ transition }} />;
+ * ```
+ *
+ * @param springConfig The SpringConfig to convert
+ * @param properties (Optional) The CSS properties to transition (Defaults to `"all"`)
+ * @param options (Optional) The options of the sampling
+ * @returns The CSS transition
+ */
+export const springToCSSTransition = (
+  springConfig: SpringConfig,
+  properties: string | string[] = "all",
+  options: SpringSamplingOptions = {}
+): string => {
+  const duration = getSpringDuration(springConfig, {
+    ...options,
+    from: 0,
+    to: 1,
+  });
+  const easing = springToLinearEasing(springConfig, options);
+
+  return (Array.isArray(properties) ? properties : [properties])
+    .map(property => `${property} ${duration}ms ${easing}`)
+    .join(", ");
+};
+
+/**
+ * Converts the curve of a spring to Web Animations keyframes, to run
+ * spring motion with `element.animate()`.
+ *
+ * @example
+ * ```ts
+ * const { keyframes, duration } = springToKeyframes(
+ *   new SpringConfig(230, 22),
+ *   "transform",
+ *   { from: 0, to: 100, format: v => `translateX(${v}px)` }
+ * );
+ *
+ * element.animate(keyframes, { duration, fill: "forwards" });
+ * ```
+ *
+ * @param springConfig The SpringConfig to convert
+ * @param property The CSS property to animate
+ * @param options (Optional) The options of the keyframes
+ * @param options.format (Optional) Format a sampled value as a CSS value
+ * @param options.samples (Optional) The number of keyframes (Defaults to one keyframe per frame at 60fps)
+ * @returns The keyframes and the duration of the spring
+ */
+export const springToKeyframes = (
+  springConfig: SpringConfig,
+  property: string,
+  options: SpringKeyframesOptions = {}
+): SpringKeyframes => {
+  const { format = (value: number) => value } = options;
+  const { duration, values } = sampleSpring(springConfig, options);
+
+  return {
+    duration,
+    keyframes: values.map((value, i) => ({
+      offset: round(i / (values.length - 1)),
+      [property]: format(round(value)),
+    })),
+  };
+};
@@ -1,12 +1,26 @@
 import type {
+  ColorSpace,
+  ColorTuple,
+  DecaySimulationOptions,
   Looper,
   RGBColor,
+  SpringConfigInput,
+  SpringConfigPresetName,
   SpringListener,
   SpringsForNumbers,
   SpringSystemListener,
 } from "../types/logic.ts";
 import { isNullOrUndefined } from "../utils/isNullOrUndefined.ts";
 
+import { getAnimationClock, requestFrame } from "./animationClock.ts";
+import {
+  adjustHue,
+  fromColorSpace,
+  hslToRGB,
+  namedColors,
+  toColorSpace,
+} from "./colors.ts";
+
 let _onFrame: ((callback: () => unknown) => number | void) | undefined;
 
 // Get the `requestAnimationFrame` function for the current environment.
@@ -99,7 +113,40 @@ export const removeFirst = <T>(array: T[], item: T): void => {
 const colorCache: { [color: string]: RGBColor } = {};
 
 /**
- * Converts a hex color string to an RGB object.
+ * Parses a component of a CSS color function, e.g. `"128"`, `"50%"`
+ * or `"120deg"`.
+ *
+ * @param component The component to parse
+ * @param percentScale The value a percentage of `100%` stands for
+ * @returns The parsed component
+ */
+const parseColorComponent = (component: string, percentScale: number) => {
+  const n = parseFloat(component);
+
+  if (component.endsWith("%")) {
+    return (n / 100) * percentScale;
+  }
+
+  if (component.endsWith("turn")) {
+    return n * 360;
+  }
+
+  if (component.endsWith("grad")) {
+    return n * 0.9;
+  }
+
+  if (component.endsWith("rad")) {
+    return radiansToDegrees(n);
+  }
+
+  return n;
+};
+
+/**
+ * Converts a color string to an RGB object. The color string can be
+ * a hex color (`#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa`), an `rgb()`,
+ * `rgba()`, `hsl()` or `hsla()` color function, or a CSS named color.
+ * The alpha component is only set when the color string has one.
  *
  * Handy for performing tweening animations.
  *
@@ -111,29 +158,86 @@ export const hexToRGB = (colorStr: string): RGBColor => {
     return colorCache[colorStr] as RGBColor;
   }
 
-  let normalizedColor = colorStr.replace("#", "");
+  let normalizedColor = colorStr.trim().toLowerCase();
+  normalizedColor = namedColors[normalizedColor] ?? normalizedColor;
 
-  if (normalizedColor.length === 3) {
-    normalizedColor = `${normalizedColor[0]}${normalizedColor[0]}${normalizedColor[1]}${normalizedColor[1]}${normalizedColor[2]}${normalizedColor[2]}`;
-  }
+  let ret: RGBColor;
+  const colorFunction = normalizedColor.match(/^(rgba?|hsla?)\((.*)\)$/);
 
-  const parts = normalizedColor.match(/.{2}/g);
+  if (colorFunction) {
+    const [, name, args] = colorFunction as [string, string, string];
+    const parts = args.split(/[\s,/]+/).filter(part => part.length > 0);
 
-  if (!parts || parts.length < 3) {
-    throw new Error("Expected a color string of format '#rrggbb'");
-  }
+    if (parts.length < 3 || parts.length > 4) {
+      throw new Error(`Expected a color function with 3 or 4 components`);
+    }
 
-  const ret: RGBColor = {
-    r: parseInt(parts[0] as string, 16),
-    g: parseInt(parts[1] as string, 16),
-    b: parseInt(parts[2] as string, 16),
-  };
+    if (name.startsWith("rgb")) {
+      ret = {
+        r: parseColorComponent(parts[0] as string, 255),
+        g: parseColorComponent(parts[1] as string, 255),
+        b: parseColorComponent(parts[2] as string, 255),
+      };
+    } else {
+      const [r, g, b] = hslToRGB(
+        parseColorComponent(parts[0] as string, 360),
+        parseFloat(parts[1] as string),
+        parseFloat(parts[2] as string)
+      );
+      ret = { r, g, b };
+    }
+
+    if (parts.length === 4) {
+      ret.a = parseColorComponent(parts[3] as string, 1);
+    }
+  } else {
+    normalizedColor = normalizedColor.replace("#", "");
+
+    if (normalizedColor.length === 3 || normalizedColor.length === 4) {
+      normalizedColor = normalizedColor.replace(/./g, c => `${c}${c}`);
+    }
+
+    const parts = normalizedColor.match(/.{2}/g);
+
+    if (
+      !parts ||
+      (parts.length !== 3 && parts.length !== 4) ||
+      !/^[0-9a-f]+$/.test(normalizedColor)
+    ) {
+      throw new Error(
+        `Expected a color string of format '#rrggbb', '#rrggbbaa', 'rgb()', 'hsl()' or a named color, got '${colorStr}'`
+      );
+    }
+
+    ret = {
+      r: parseInt(parts[0] as string, 16),
+      g: parseInt(parts[1] as string, 16),
+      b: parseInt(parts[2] as string, 16),
+    };
+
+    if (parts.length === 4) {
+      ret.a = parseInt(parts[3] as string, 16) / 255;
+    }
+  }
 
   colorCache[colorStr] = ret;
 
   return ret;
 };
 
+/**
+ * Converts a color string to a color tuple, see `{@link hexToRGB}`
+ * for the supported formats.
+ *
+ * @param colorStr The color string to convert
+ * @returns The color tuple, with an alpha component if the color string has one
+ */
+export const colorToTuple = (colorStr: string): ColorTuple => {
+  const { r, g, b, a } = hexToRGB(colorStr);
+
+  return a === undefined ? [r, g, b] : [r, g, b, a];
+};
+
 /**
  * Converts an RGB object to a hex color string.
  *
@@ -188,9 +292,13 @@ export const mapValueInRange = (
 };
 
 /**
- * Interpolate two hex colors in a 0 - 1 range or optionally provide a
+ * Interpolate two colors in a 0 - 1 range or optionally provide a
  * custom range with fromLow,fromHight. The output will be in hex by default
  * unless asRGB is true in which case it will be returned as an rgb string.
+ * When either color is not opaque, e.g. `transparent`, the alpha is
+ * interpolated too and the output is an rgba string.
+ * The colors are interpolated in sRGB by default; interpolating in a
+ * perceptual color space such as `oklab` avoids muddy intermediate colors.
  *
  * @param value The value to interpolate
  * @param startColorStr The color string to interpolate from
@@ -198,7 +306,8 @@ export const mapValueInRange = (
  * @param fromLow (Optional) The low end of the `value`'s range (Defaults to 0)
  * @param fromHigh (Optional) The high end of the `value`'s range (Defaults to 1)
  * @param asRGB (Optional) Whether to return an rgb-style string
- * @return A string in hex color format unless asRGB is true, in which case a string in rgb format
+ * @param colorSpace (Optional) The color space to interpolate in (Defaults to `"srgb"`)
+ * @return A string in hex color format unless asRGB is true, in which case a string in rgb format, or a string in rgba format if either color is not opaque
  */
 export const interpolateColor = (
   value: number,
@@ -206,21 +315,27 @@ export const interpolateColor = (
   endColorStr: string,
   fromLow: number = 0,
   fromHigh: number = 1,
-  asRGB?: boolean
+  asRGB?: boolean,
+  colorSpace: ColorSpace = "srgb"
 ): string => {
-  const startColor = hexToRGB(startColorStr);
-  const endColor = hexToRGB(endColorStr);
-
-  const r = Math.floor(
-    mapValueInRange(value, fromLow, fromHigh, startColor.r, endColor.r)
-  );
-  const g = Math.floor(
-    mapValueInRange(value, fromLow, fromHigh, startColor.g, endColor.g)
-  );
-  const b = Math.floor(
-    mapValueInRange(value, fromLow, fromHigh, startColor.b, endColor.b)
+  const [startColor, endColor] = adjustHue(
+    toColorSpace(colorToTuple(startColorStr), colorSpace),
+    toColorSpace(colorToTuple(endColorStr), colorSpace),
+    colorSpace
   );
 
+  const components = startColor.map((start, i) =>
+    mapValueInRange(value, fromLow, fromHigh, start, endColor[i] as number)
+  ) as ColorTuple;
+  const [c1, c2, c3, a = 1] = fromColorSpace(components, colorSpace);
+  const [r, g, b] = [c1, c2, c3].map(c =>
+    Math.min(255, Math.max(0, Math.floor(c)))
+  ) as [number, number, number];
+
+  if ((startColor[3] ?? 1) !== 1 || (endColor[3] ?? 1) !== 1) {
+    return `rgba(${r},${g},${b},${Math.min(1, Math.max(0, a))})`;
+  }
+
   if (asRGB) {
     return `rgb(${r},${g},${b})`;
   }
@@ -491,6 +606,14 @@ function getSpringSystem(this: Looper): SpringSystem {
  * timing loop. This is the default type of looper for a new spring system
  * as it is the most common when developing UI.
  *
+ * The SpringSystem is integrated in the `update` phase of the frames
+ * of the shared `{@link FrameScheduler}`, so that the styles of its
+ * springs are written in the `write` phase of the same frame.
+ *
+ * When an `{@link AnimationClock}` is installed, the looper hands its
+ * SpringSystem over to a `{@link SteppingSimulationLooper}` driven by
+ * the clock instead.
+ *
  * **Methods**
  * - `run` - Play each frame of the SpringSystem on animation timing loop
  *
@@ -508,10 +631,25 @@ export class AnimationLooper {
    */
   run() {
     const springSystem = getSpringSystem.call(this);
+    const clock = getAnimationClock();
+
+    if (clock) {
+      const looper = new SteppingSimulationLooper();
+      // Continue from the real time, in case a frame is still pending
+      looper.time = Date.now();
+      springSystem.setLooper(looper);
+      clock.addLooper(looper, this);
+      return;
+    }
 
-    onFrame(() => {
-      springSystem.loop(Date.now());
-    });
+    // The springs are integrated before the styles they animate are
+    // written, in the same frame
+    requestFrame(
+      () => {
+        springSystem.loop(Date.now());
+      },
+      { phase: "update", priority: "high" }
+    );
   }
 }
 
@@ -634,9 +772,14 @@ export class SteppingSimulationLooper {
  * - `fromOrigamiTensionAndFriction` - Convert an origami Spring tension and friction to Rebound spring constants
  * - `fromBouncinessAndSpeed` - Convert an origami PopAnimation Spring bounciness and speed to Rebound spring constants
  * - `coastingConfigWithOrigamiFriction` - Create a SpringConfig with no tension or a coasting spring with some amount of Friction so that it does not coast infininitely
+ * - `fromMassStiffnessAndDamping` - Convert a physical mass, stiffness and damping to Rebound spring constants
+ * - `fromDampingRatio` - Convert a damping ratio, stiffness and mass to Rebound spring constants
+ * - `fromDurationAndBounce` - Convert a perceptual duration and bounce to Rebound spring constants
+ * - `from` - Create a SpringConfig from any of the supported spring config forms
  *
  * **Static Properties**
  * - `DEFAULT_ORIGAMI_SPRING_CONFIG` - The default origami spring config that can be used directly
+ * - `PRESETS` - Named spring configs that can be used directly
  *
  * **Properties**
  * - `friction` - The friction constant to maintain
@@ -658,6 +801,24 @@ export class SpringConfig {
   static DEFAULT_ORIGAMI_SPRING_CONFIG =
     SpringConfig.fromOrigamiTensionAndFriction(40, 7);
 
+  /**
+   * Named spring configs that can be used directly:
+   * - `default` - A balanced spring with a small overshoot
+   * - `gentle` - A soft spring with a gentle overshoot
+   * - `wobbly` - A bouncy spring that wobbles around its end value
+   * - `stiff` - A quick spring with little overshoot
+   * - `slow` - A slow spring without overshoot
+   * - `molasses` - A very slow, heavily damped spring
+   */
+  static PRESETS: Record<SpringConfigPresetName, SpringConfig> = {
+    default: new SpringConfig(170, 26),
+    gentle: new SpringConfig(120, 14),
+    wobbly: new SpringConfig(180, 12),
+    stiff: new SpringConfig(210, 20),
+    slow: new SpringConfig(280, 60),
+    molasses: new SpringConfig(280, 120),
+  };
+
   /**
    * Convert an origami Spring tension and friction to Rebound spring
    * constants. If you are prototyping a design with Origami, this
@@ -713,6 +874,121 @@ export class SpringConfig {
     );
   }
 
+  /**
+   * Convert a physical mass, stiffness and damping, as exported by
+   * most design tools, to Rebound spring constants. Rebound springs
+   * have a unit mass, so the mass scales the stiffness and damping.
+   *
+   * @param mass The mass attached to the spring
+   * @param stiffness The stiffness of the spring
+   * @param damping The damping of the spring
+   * @returns The new SpringConfig
+   */
+  static fromMassStiffnessAndDamping(
+    mass: number,
+    stiffness: number,
+    damping: number
+  ): SpringConfig {
+    return new SpringConfig(stiffness / mass, damping / mass);
+  }
+
+  /**
+   * Convert a damping ratio, stiffness and mass to Rebound spring
+   * constants. A damping ratio of `1` is critically damped, i.e. the
+   * fastest motion that does not overshoot. Lower values bounce and
+   * higher values crawl to the end value.
+   *
+   * @param dampingRatio The damping ratio of the spring
+   * @param stiffness The stiffness of the spring
+   * @param mass (Optional) The mass attached to the spring (Defaults to `1`)
+   * @returns The new SpringConfig
+   */
+  static fromDampingRatio(
+    dampingRatio: number,
+    stiffness: number,
+    mass: number = 1
+  ): SpringConfig {
+    const tension = stiffness / mass;
+    return new SpringConfig(tension, 2 * dampingRatio * Math.sqrt(tension));
+  }
+
+  /**
+   * Convert a perceptual duration and bounce to Rebound spring
+   * constants. The duration is the period of the undamped spring,
+   * which is roughly how long the motion feels like it takes. A bounce
+   * of `0` is critically damped, positive values up to `1` add
+   * overshoot and negative values make the spring crawl.
+   *
+   * @param duration The perceptual duration of the spring, in milliseconds
+   * @param bounce (Optional) The bounce of the spring, between `-1` and `1` (Defaults to `0`)
+   * @returns The new SpringConfig
+   */
+  static fromDurationAndBounce(
+    duration: number,
+    bounce: number = 0
+  ): SpringConfig {
+    const omega = (2 * Math.PI) / (duration / 1000);
+    const dampingRatio = bounce >= 0 ? 1 - bounce : 1 / (1 + bounce);
+
+    return new SpringConfig(omega * omega, 2 * dampingRatio * omega);
+  }
+
+  /**
+   * Create a SpringConfig from any of the supported spring config
+   * forms: a SpringConfig, a preset name, Rebound tension and friction,
+   * physical mass, stiffness and damping, a damping ratio and
+   * stiffness, or a perceptual duration and bounce.
+   *
+   * @example
+   * ```ts
+   * SpringConfig.from("wobbly");
+   * SpringConfig.from({ tension: 230, friction: 22 });
+   * SpringConfig.from({ stiffness: 300, damping: 20, mass: 1 });
+   * SpringConfig.from({ stiffness: 300, dampingRatio: 0.7 });
+   * SpringConfig.from({ duration: 400, bounce: 0.2 });
+   * ```
+   *
+   * @param input The spring config in any of the supported forms
+   * @returns The SpringConfig
+   */
+  static from(input: SpringConfigInput): SpringConfig {
+    if (input instanceof SpringConfig) {
+      return input;
+    }
+
+    if (typeof input === "string") {
+      const preset = SpringConfig.PRESETS[input];
+
+      if (!preset) {
+        throw new Error(`Unknown spring config preset '${input}'`);
+      }
+
+      return preset;
+    }
+
+    if ("duration" in input) {
+      return SpringConfig.fromDurationAndBounce(input.duration, input.bounce);
+    }
+
+    if ("dampingRatio" in input) {
+      return SpringConfig.fromDampingRatio(
+        input.dampingRatio,
+        input.stiffness,
+        input.mass
+      );
+    }
+
+    if ("stiffness" in input) {
+      return SpringConfig.fromMassStiffnessAndDamping(
+        input.mass ?? 1,
+        input.stiffness,
+        input.damping
+      );
+    }
+
+    return new SpringConfig(input.tension, input.friction);
+  }
+
   /**
    * @constructor
    * @param tension The tension value
@@ -734,7 +1010,9 @@ export class SpringConfig {
  * - `createSpring` - Add a new spring to this SpringSystem
  * - `createSpringWithBouncinessAndSpeed` - Add a spring with a specified bounciness and speed
  * - `createSpringWithConfig` - Add a spring with the provided SpringConfig
+ * - `createDecaySimulation` - Add a decay simulation that glides to a stop
  * - `getIsIdle` - Check if a SpringSystem is idle or active
+ * - `getActiveSpringCount` - Get the number of springs that are active in the SpringSystem
  * - `getSpringById` - Retrieve a specific Spring from the SpringSystem by id
  * - `getAllSprings` - Get a listing of all the springs registered with this SpringSystem
  * - `registerSpring` - Manually add a spring to this system
@@ -765,9 +1043,9 @@ export class SpringSystem {
    */
   private activeSprings: Spring[] = [];
   /**
-   * The indices of the currently idle springs.
+   * The currently idle springs.
    */
-  private idleSpringIndices: number[] = [];
+  private idleSprings: Spring[] = [];
   /**
    *  Whether the spring system is idle.
    */
@@ -866,6 +1144,23 @@ export class SpringSystem {
     return spring;
   }
 
+  /**
+   * Add a `{@link DecaySimulation}` to this SpringSystem. The simulation
+   * glides from its current value with its velocity until it comes to
+   * a stop, bouncing back if it crosses one of its bounds.
+   *
+   * @param options (Optional) The options of the simulation
+   * @param options.friction (Optional) The friction of the simulation, per second
+   * @param options.min (Optional) The lower bound of the simulation
+   * @param options.max (Optional) The upper bound of the simulation
+   * @returns The simulation that was added
+   */
+  createDecaySimulation(options?: DecaySimulationOptions): DecaySimulation {
+    const decay = new DecaySimulation(this, options);
+    this.registerSpring(decay);
+    return decay;
+  }
+
   /**
    * Check if a SpringSystem is idle or active. If all of the Springs in the
    * SpringSystem are at rest, i.e. the physics forces have reached
@@ -875,6 +1170,24 @@ export class SpringSystem {
     return this.isIdle;
   }
 
+  /**
+   * Get the number of springs that are active in the SpringSystem.
+   * Read from the `onAfterIntegrate` callback of a SpringSystemListener,
+   * this is the number of springs that were advanced in the frame.
+   *
+   * @example
+   * ```ts
+   * springSystem.addListener({
+   *   onAfterIntegrate: system => counts.push(system.getActiveSpringCount()),
+   * });
+   * ```
+   *
+   * @returns The number of active springs
+   */
+  getActiveSpringCount(): number {
+    return this.activeSprings.length;
+  }
+
   /**
    * Retrieve a specific Spring from the SpringSystem by id. This
    * can be useful for inspecting the state of a spring before
@@ -942,25 +1255,30 @@ export class SpringSystem {
    * @param deltaTime The delta time since the last time this method was called
    */
   advance(time: number, deltaTime: number): void {
-    while (this.idleSpringIndices.length > 0) {
-      this.idleSpringIndices.pop();
+    while (this.idleSprings.length > 0) {
+      this.idleSprings.pop();
     }
 
-    for (let i = 0, len = this.activeSprings.length; i < len; i++) {
-      const spring = this.activeSprings[i] as Spring;
+    // Loop over a copy, as the listeners of a spring can destroy
+    // springs while the system advances
+    const activeSprings = this.activeSprings.slice();
+
+    for (let i = 0, len = activeSprings.length; i < len; i++) {
+      const spring = activeSprings[i] as Spring;
+
+      if (this.activeSprings.indexOf(spring) === -1) {
+        continue;
+      }
 
       if (spring.systemShouldAdvance()) {
         spring.advance(time / 1000.0, deltaTime / 1000.0);
       } else {
-        this.idleSpringIndices.push(this.activeSprings.indexOf(spring));
+        this.idleSprings.push(spring);
       }
     }
 
-    while (this.idleSpringIndices.length > 0) {
-      const i = this.idleSpringIndices.pop() as number;
-      if (i > -1) {
-        this.activeSprings.splice(i, 1);
-      }
+    while (this.idleSprings.length > 0) {
+      removeFirst(this.activeSprings, this.idleSprings.pop() as Spring);
     }
   }
 
@@ -1028,7 +1346,12 @@ export class SpringSystem {
    * @param springId The id of the spring that has become displaced
    */
   activateSpring(springId: string): void {
-    const spring = this.springRegistry[springId] as Spring;
+    const spring = this.springRegistry[springId];
+
+    // A destroyed spring is no longer registered and can't be advanced
+    if (!spring) {
+      return;
+    }
 
     if (this.activeSprings.indexOf(spring) === -1) {
       this.activeSprings.push(spring);
@@ -1107,6 +1430,8 @@ export class SpringSystem {
  * - `wasAtRest` - Check if the Spring was at rest in the prior iteration
  * - `isAtRest` - Check if the Spring is at rest
  * - `setAtRest` - Force the spring to be at rest at its current position
+ * - `setRestGroup` - Detect the rest of the Spring on the magnitude of a group of springs
+ * - `getRestGroup` - Retrieve the group of springs the Spring comes to rest with
  * - `getListeners` - Retrieve the listeners for the Spring
  * - `addListener` - Add a listener to the Spring
  * - `removeListener` - Remove a previously added listener on the Spring
@@ -1156,7 +1481,7 @@ export class Spring {
   /**
    * The current Physics State of the current Spring.
    */
-  private _currentState: PhysicsState = new PhysicsState();
+  protected _currentState: PhysicsState = new PhysicsState();
   /**
    * The previous Physics State of the current Spring.
    */
@@ -1168,11 +1493,11 @@ export class Spring {
   /**
    * The start value of the current Spring.
    */
-  private _startValue: number = 0;
+  protected _startValue: number = 0;
   /**
    * The end value of the current Spring.
    */
-  private _endValue: number = 0;
+  protected _endValue: number = 0;
   /**
    * Tracks the accumulation of time as the current Spring advances.
    */
@@ -1180,7 +1505,7 @@ export class Spring {
   /**
    * The rest speed threshold of the current Spring.
    */
-  private _restSpeedThreshold: number = 0.001;
+  protected _restSpeedThreshold: number = 0.001;
   /**
    * The current displacement of the current Spring for the rest speed threshold.
    */
@@ -1192,7 +1517,11 @@ export class Spring {
   /**
    * Whether the current Spring was at rest in the last iteration.
    */
-  private _wasAtRest: boolean = true;
+  protected _wasAtRest: boolean = true;
+  /**
+   * The springs the current Spring comes to rest together with.
+   */
+  private _restGroup: (Spring | undefined)[] | null = null;
 
   /**
    * @constructor
@@ -1583,19 +1912,24 @@ export class Spring {
       this.interpolate(this._timeAccumulator / Spring.SOLVER_TIMESTEP_SEC);
     }
 
+    const isAtRestNow = this.isAtRest();
+
     if (
-      this.isAtRest() ||
+      isAtRestNow ||
       (this._overshootClampingEnabled && this.isOvershooting())
     ) {
-      if (this._springConfig.tension > 0) {
-        this._startValue = this._endValue;
-        this._currentState.position = this._endValue;
-      } else {
-        this._endValue = this._currentState.position;
-        this._startValue = this._endValue;
+      // The springs of a rest group come to rest on the same frame
+      if (isAtRestNow && this._restGroup) {
+        for (const spring of this._restGroup) {
+          if (spring && spring !== this && !spring._wasAtRest) {
+            spring.settle();
+            spring._wasAtRest = true;
+            spring.notifyPositionUpdated(false, true);
+          }
+        }
       }
 
-      this.setVelocity(0);
+      this.settle();
       isAtRest = true;
     }
 
@@ -1669,13 +2003,34 @@ export class Spring {
    * be considered at rest whenever its absolute velocity drops below the
    * restSpeedThreshold.
    *
+   * If the Spring has a rest group (see `setRestGroup`), the thresholds
+   * apply to the magnitude of the displacement and velocity vectors of
+   * the group instead.
+   *
    * @returns Whether the spring is at rest
    */
   isAtRest(): boolean {
+    let displacement = this.getDisplacementDistanceForState(this._currentState);
+    let speed = Math.abs(this._currentState.velocity);
+
+    if (this._restGroup) {
+      let displacementSquared = 0;
+      let speedSquared = 0;
+
+      for (const spring of this._restGroup) {
+        if (spring) {
+          displacementSquared += spring.getCurrentDisplacementDistance() ** 2;
+          speedSquared += spring.getVelocity() ** 2;
+        }
+      }
+
+      displacement = Math.sqrt(displacementSquared);
+      speed = Math.sqrt(speedSquared);
+    }
+
     return (
-      Math.abs(this._currentState.velocity) < this._restSpeedThreshold &&
-      (this.getDisplacementDistanceForState(this._currentState) <=
-        this._displacementFromRestThreshold ||
+      speed < this._restSpeedThreshold &&
+      (displacement <= this._displacementFromRestThreshold ||
         this._springConfig.tension === 0)
     );
   }
@@ -1695,6 +2050,45 @@ export class Spring {
     return this;
   }
 
+  /**
+   * Detect the rest of this Spring on the magnitude of the displacement
+   * and velocity vectors of a group of springs, e.g. the axes of a 2D
+   * position. The springs of a group come to rest at the same moment,
+   * instead of each axis settling on its own. The group should include
+   * this Spring, and can be shared (and later extended) by its springs.
+   *
+   * @param restGroup The springs to come to rest with, or `null` to detect the rest of this Spring alone
+   * @returns The current Spring
+   */
+  setRestGroup(restGroup: (Spring | undefined)[] | null): this {
+    this._restGroup = restGroup;
+    return this;
+  }
+
+  /**
+   * Retrieve the group of springs this Spring comes to rest with.
+   *
+   * @returns The rest group, or `null` if the Spring comes to rest alone
+   */
+  getRestGroup(): (Spring | undefined)[] | null {
+    return this._restGroup;
+  }
+
+  /**
+   * Bring the Spring to its resting position, without any velocity.
+   */
+  private settle(): void {
+    if (this._springConfig.tension > 0) {
+      this._startValue = this._endValue;
+      this._currentState.position = this._endValue;
+    } else {
+      this._endValue = this._currentState.position;
+      this._startValue = this._endValue;
+    }
+
+    this.setVelocity(0);
+  }
+
   /**
    * Retrieve the listeners for the Spring.
    *
@@ -1769,22 +2163,337 @@ export class Spring {
   }
 }
 
+/**
+ * Provides a model of a body gliding to a stop, like a list that
+ * keeps scrolling after a flick. The velocity of the simulation
+ * decays exponentially, with a deceleration of `velocity * friction`,
+ * until it drops below the rest speed threshold.
+ *
+ * Optionally, the simulation can be constrained by `min` and `max`
+ * bounds. When the body crosses one of the bounds, the simulation
+ * turns into a regular Spring that carries the remaining momentum
+ * and bounces back to the bound, using the spring config of the
+ * simulation.
+ *
+ * A DecaySimulation is registered and advanced by a SpringSystem
+ * like any other Spring and notifies the same `SpringListener`
+ * callbacks. To start a glide, set the current value and the
+ * velocity the gesture ended with:
+ *
+ * ```ts
+ * decay.setCurrentValue(x).setVelocity(gestureEndVelocity);
+ * ```
+ *
+ * Setting an end value makes the simulation behave like a Spring
+ * resolving to that value.
+ *
+ * **Methods**
+ * - `setFriction` - Set the friction of the simulation
+ * - `getFriction` - Retrieve the friction of the simulation
+ * - `setBounds` - Set the bounds of the simulation
+ * - `getBounds` - Retrieve the bounds of the simulation
+ * - `isBouncing` - Check if the simulation is springing back to a bound or to an end value
+ * - `getRestingValue` - Get the value the simulation is going to come to rest at
+ *
+ * **Static Properties**
+ * - `DEFAULT_FRICTION` - The default friction of a DecaySimulation
+ */
+export class DecaySimulation extends Spring {
+  /**
+   * The default friction of a DecaySimulation.
+   */
+  static DEFAULT_FRICTION: number = 2;
+
+  /**
+   * The friction of the simulation, per second.
+   */
+  private _friction: number;
+  /**
+   * The lower bound of the simulation.
+   */
+  private _min: number;
+  /**
+   * The upper bound of the simulation.
+   */
+  private _max: number;
+  /**
+   * Whether the simulation is springing back to a bound or to an end value.
+   */
+  private _isBouncing: boolean = false;
+
+  /**
+   * @constructor
+   * @param springSystem The SpringSystem to which this simulation belongs
+   * @param options (Optional) The options of the simulation
+   * @param options.friction (Optional) The friction of the simulation, per second (Defaults to `DecaySimulation.DEFAULT_FRICTION`)
+   * @param options.min (Optional) The lower bound of the simulation
+   * @param options.max (Optional) The upper bound of the simulation
+   */
+  constructor(
+    springSystem: SpringSystem,
+    options: DecaySimulationOptions = {}
+  ) {
+    super(springSystem);
+    this._friction = options.friction ?? DecaySimulation.DEFAULT_FRICTION;
+    this._min = options.min ?? -Infinity;
+    this._max = options.max ?? Infinity;
+  }
+
+  /**
+   * Set the friction of the simulation. The velocity of the simulation
+   * is multiplied by `e^(-friction)` every second.
+   *
+   * @param friction The friction of the simulation, per second
+   * @returns The current DecaySimulation
+   */
+  setFriction(friction: number): this {
+    this._friction = friction;
+    return this;
+  }
+
+  /**
+   * Retrieve the friction of the simulation.
+   *
+   * @returns The friction of the simulation, per second
+   */
+  getFriction(): number {
+    return this._friction;
+  }
+
+  /**
+   * Set the bounds of the simulation. Omitted bounds are unbounded.
+   *
+   * @param min (Optional) The lower bound of the simulation
+   * @param max (Optional) The upper bound of the simulation
+   * @returns The current DecaySimulation
+   */
+  setBounds(min?: number, max?: number): this {
+    this._min = min ?? -Infinity;
+    this._max = max ?? Infinity;
+    return this;
+  }
+
+  /**
+   * Retrieve the bounds of the simulation.
+   *
+   * @returns A tuple of the lower and upper bounds of the simulation
+   */
+  getBounds(): [min: number, max: number] {
+    return [this._min, this._max];
+  }
+
+  /**
+   * Check if the simulation is springing back to a bound or to an
+   * end value instead of gliding.
+   *
+   * @returns Whether the simulation is bouncing
+   */
+  isBouncing(): boolean {
+    return this._isBouncing;
+  }
+
+  /**
+   * Get the value the simulation is going to come to rest at,
+   * based on its current position, velocity and bounds.
+   *
+   * @returns The resting value of the simulation
+   */
+  getRestingValue(): number {
+    if (this._isBouncing) {
+      return this._endValue;
+    }
+
+    const { position, velocity } = this._currentState;
+    const restingValue =
+      this._friction > 0
+        ? position + velocity / this._friction
+        : velocity === 0
+          ? position
+          : velocity * Infinity;
+
+    return Math.min(this._max, Math.max(this._min, restingValue));
+  }
+
+  /**
+   * Set the current velocity of the simulation, in pixels per second,
+   * starting a glide from the current value.
+   *
+   * @param velocity The new velocity of the simulation
+   * @returns The current DecaySimulation
+   */
+  setVelocity(velocity: number): this {
+    this._isBouncing = this.isOutOfBounds(this._currentState.position);
+    if (this._isBouncing) {
+      this._startValue = this._currentState.position;
+      this._endValue = this.clamp(this._currentState.position);
+    }
+    return super.setVelocity(velocity);
+  }
+
+  /**
+   * Set the endValue or resting position of the simulation, making
+   * it behave like a Spring resolving to that value.
+   *
+   * @param endValue The new endValue or resting position of the simulation
+   * @returns The current DecaySimulation
+   */
+  setEndValue(endValue: number): this {
+    this._isBouncing = true;
+    return super.setEndValue(endValue);
+  }
+
+  /**
+   * Force the simulation to be at rest at its current position.
+   *
+   * @returns The current DecaySimulation
+   */
+  setAtRest(): this {
+    this._isBouncing = false;
+    return super.setAtRest();
+  }
+
+  /**
+   * Check if the simulation is at rest. While gliding, the
+   * simulation is at rest whenever its absolute velocity drops
+   * below the restSpeedThreshold. While bouncing, the Spring rules
+   * apply.
+   *
+   * @returns Whether the simulation is at rest
+   */
+  isAtRest(): boolean {
+    if (this._isBouncing) {
+      return super.isAtRest();
+    }
+
+    return Math.abs(this._currentState.velocity) < this._restSpeedThreshold;
+  }
+
+  /**
+   * The main solver method for the simulation. While gliding, the
+   * exponential decay is solved exactly for the elapsed time. While
+   * bouncing, the Spring solver is used.
+   *
+   * @param time The current time
+   * @param realDeltaTime The time since the last time step
+   */
+  advance(time: number, realDeltaTime: number): void {
+    if (this._isBouncing) {
+      super.advance(time, realDeltaTime);
+      return;
+    }
+
+    let isAtRest = this.isAtRest();
+
+    if (isAtRest && this._wasAtRest) {
+      return;
+    }
+
+    const deltaTime = Math.min(realDeltaTime, Spring.MAX_DELTA_TIME_SEC);
+    const friction = this._friction;
+    let { position, velocity } = this._currentState;
+
+    if (friction > 0) {
+      const decay = Math.exp(-friction * deltaTime);
+      position += (velocity * (1 - decay)) / friction;
+      velocity *= decay;
+    } else {
+      position += velocity * deltaTime;
+    }
+
+    this._currentState.position = position;
+    this._currentState.velocity = velocity;
+
+    if (this.isOutOfBounds(position)) {
+      // Hand the remaining momentum over to the spring solver
+      this._isBouncing = true;
+      this._startValue = position;
+      this._endValue = this.clamp(position);
+      isAtRest = false;
+    } else if (this.isAtRest()) {
+      this._currentState.velocity = 0;
+      this._startValue = position;
+      this._endValue = position;
+      isAtRest = true;
+    }
+
+    let notifyActivate = false;
+
+    if (this._wasAtRest) {
+      this._wasAtRest = false;
+      notifyActivate = true;
+    }
+
+    let notifyAtRest = false;
+
+    if (isAtRest) {
+      this._wasAtRest = true;
+      notifyAtRest = true;
+    }
+
+    this.notifyPositionUpdated(notifyActivate, notifyAtRest);
+  }
+
+  /**
+   * Check if a value is outside the bounds of the simulation.
+   *
+   * @param value The value to check
+   * @returns Whether the value is out of bounds
+   */
+  private isOutOfBounds(value: number): boolean {
+    return value < this._min || value > this._max;
+  }
+
+  /**
+   * Clamp a value to the bounds of the simulation.
+   *
+   * @param value The value to clamp
+   * @returns The clamped value
+   */
+  private clamp(value: number): number {
+    return Math.min(this._max, Math.max(this._min, value));
+  }
+}
+
 /**
  * A wrapper class for the `{@link Spring}` class that allows for
  * creating multiple springs at once.
  *
+ * Each component (or axis) of the value can have its own SpringConfig
+ * and velocity. By default, each component comes to rest on its own
+ * thresholds; with vector rest detection enabled, the thresholds apply
+ * to the magnitude of the displacement and velocity vectors, so that a
+ * diagonal motion settles on all the axes at the same moment.
+ *
+ * @example
+ * ```ts
+ * const position = new MultiSpring<[number, number]>(springSystem, [
+ *   SpringConfig.from("stiff"),
+ *   SpringConfig.from("wobbly"),
+ * ]);
+ *
+ * position.setVectorRestDetectionEnabled(true);
+ * position.setCurrentValue([0, 0]);
+ * position.setVelocity([300, -150]);
+ * position.setEndValue([100, 100]);
+ * ```
+ *
  * **Methods**
  * - `destroy` - Destroys all the springs
+ * - `getSpringConfig` - Gets the spring config of a component
+ * - `setSpringConfig` - Sets the spring config of all or each of the components
  * - `getCurrentValue` - Gets the current value of all the springs
  * - `setCurrentValue` - Sets the current value of all the springs
  * - `getEndValue` - Gets the end value of all the springs
  * - `setEndValue` - Sets the end value of all the springs
  * - `getVelocity` - Gets the velocity of all the springs
  * - `setAtRest` - Sets all the springs at rest
+ * - `isAtRest` - Checks if all the springs are at rest
  * - `setVelocity` - Sets the velocity of all the springs
  * - `setRestSpeedThreshold` - Sets the rest speed threshold of all the springs
  * - `setRestDisplacementThreshold` - Sets the rest displacement threshold of all the springs
  * - `setOvershootClampingEnabled` - Sets the overshoot clamping enabled of all the springs
+ * - `setVectorRestDetectionEnabled` - Sets whether the springs come to rest on the magnitude of their vectors
+ * - `isVectorRestDetectionEnabled` - Checks if the springs come to rest on the magnitude of their vectors
  * - `addListener` - Adds a listener to all the springs
  * - `removeListener` - Removes a listener from all the springs
  * - `removeAllListeners` - Removes all listeners from all the springs
@@ -1795,9 +2504,34 @@ export class MultiSpring<Numbers extends number[]> {
    */
   private springSystem: SpringSystem;
   /**
-   * The spring config to use.
+   * The spring config to use, or the spring configs to use per component.
+   */
+  private springConfig: SpringConfig | SpringConfig[];
+  /**
+   * Whether the springs come to rest on the magnitude of their vectors.
+   */
+  private vectorRestDetectionEnabled: boolean = false;
+  /**
+   * The options of the decay simulations, if the springs should glide
+   * from their velocity.
+   */
+  private decayOptions: DecaySimulationOptions | undefined;
+  /**
+   * The listeners of the springs.
    */
-  private springConfig: SpringConfig;
+  private listeners: SpringListener[] = [];
+  /**
+   * The rest speed threshold of the springs, if it was set.
+   */
+  private restSpeedThreshold: number | undefined;
+  /**
+   * The rest displacement threshold of the springs, if it was set.
+   */
+  private restDisplacementThreshold: number | undefined;
+  /**
+   * Whether overshoot clamping is enabled for the springs.
+   */
+  private overshootClampingEnabled: boolean = false;
   /**
    * The springs.
    */
@@ -1807,22 +2541,60 @@ export class MultiSpring<Numbers extends number[]> {
   /**
    * @constructor
    * @param springSystem The spring system to use.
-   * @param springConfig The spring config to use.
-   */
-  constructor(springSystem: SpringSystem, springConfig: SpringConfig) {
+   * @param springConfig The spring config to use, or the spring configs to use per component.
+   * @param decayOptions (Optional) The options to create `{@link DecaySimulation}`s instead of Springs.
+   */
+  constructor(
+    springSystem: SpringSystem,
+    springConfig: SpringConfig | SpringConfig[],
+    decayOptions?: DecaySimulationOptions
+  ) {
     this.springSystem = springSystem;
     this.springConfig = springConfig;
+    this.decayOptions = decayOptions;
   }
 
   /**
    * Remove all Springs from simulation and clear their listeners.
    */
   destroy(): void {
+    this.listeners = [];
+
     for (const spring of this.springs) {
       spring?.destroy();
     }
   }
 
+  /**
+   * Retrieve the SpringConfig used by the spring of a component.
+   *
+   * @param index The index of the component
+   * @returns The SpringConfig of the component
+   */
+  getSpringConfig(index: number): SpringConfig {
+    if (!Array.isArray(this.springConfig)) {
+      return this.springConfig;
+    }
+
+    return (this.springConfig[index] ??
+      this.springConfig[this.springConfig.length - 1]) as SpringConfig;
+  }
+
+  /**
+   * Set the configuration values for the Springs. When an array is
+   * given, each component uses the SpringConfig at its index, and the
+   * components past the end of the array use the last SpringConfig.
+   *
+   * @param springConfig The SpringConfig to set for all the springs, or the SpringConfigs to set per component
+   */
+  setSpringConfig(springConfig: SpringConfig | SpringConfig[]): void {
+    this.springConfig = springConfig;
+
+    for (let i = 0; i < this.springs.length; i++) {
+      this.springs[i]?.setSpringConfig(this.getSpringConfig(i));
+    }
+  }
+
   /**
    * Retrieve the current value of the Springs.
    *
@@ -1845,9 +2617,11 @@ export class MultiSpring<Numbers extends number[]> {
    * @param skipSetAtRest (Optional) Whether to skip setting the springs at rest
    */
   setCurrentValue(currentValue: Numbers, skipSetAtRest?: boolean): void {
+    this.trim(currentValue.length);
+
     for (let i = 0; i < currentValue.length; i++) {
       if (!this.springs[i]) {
-        this.springs[i] = this.springSystem.createSpring();
+        this.springs[i] = this.createSpring(i);
       }
       this.springs[i]?.setCurrentValue(
         currentValue[i] as number,
@@ -1876,11 +2650,11 @@ export class MultiSpring<Numbers extends number[]> {
    * @param endValue The new endValue or resting position of the spring
    */
   setEndValue(endValue: Numbers): void {
+    this.trim(endValue.length);
+
     for (let i = 0; i < endValue.length; i++) {
       if (!this.springs[i]) {
-        this.springs[i] = this.springSystem.createSpringWithConfig(
-          this.springConfig
-        );
+        this.springs[i] = this.createSpring(i);
       }
       this.springs[i]?.setEndValue(endValue[i] as number);
     }
@@ -1907,6 +2681,15 @@ export class MultiSpring<Numbers extends number[]> {
     }
   }
 
+  /**
+   * Check if all the springs are at rest.
+   *
+   * @returns Whether all the springs are at rest
+   */
+  isAtRest(): boolean {
+    return this.springs.every(spring => !spring || spring.isAtRest());
+  }
+
   /**
    * Set the current velocity of the springs, in pixels per second. As
    * previously mentioned, this can be useful when you are performing
@@ -1916,11 +2699,17 @@ export class MultiSpring<Numbers extends number[]> {
    * friction, tension, and displacement of the Spring will then
    * govern its motion to return to rest on a natural feeling curve.
    *
-   * @param velocity The new velocity of the springs
+   * @param velocity The new velocity of all the springs, or the new velocity of each component
    */
-  setVelocity(velocity: number): void {
-    for (const spring of this.springs) {
-      spring?.setVelocity(velocity);
+  setVelocity(velocity: number | Numbers): void {
+    for (let i = 0; i < this.springs.length; i++) {
+      const componentVelocity = Array.isArray(velocity)
+        ? velocity[i]
+        : velocity;
+
+      if (componentVelocity !== undefined) {
+        this.springs[i]?.setVelocity(componentVelocity);
+      }
     }
   }
 
@@ -1932,6 +2721,8 @@ export class MultiSpring<Numbers extends number[]> {
    * @returns The current Spring
    */
   setRestSpeedThreshold(restSpeedThreshold: number): void {
+    this.restSpeedThreshold = restSpeedThreshold;
+
     for (const spring of this.springs) {
       spring?.setRestSpeedThreshold(restSpeedThreshold);
     }
@@ -1945,6 +2736,8 @@ export class MultiSpring<Numbers extends number[]> {
    * @param displacementFromRestThreshold The displacement threshold value
    */
   setRestDisplacementThreshold(displacementFromRestThreshold: number): void {
+    this.restDisplacementThreshold = displacementFromRestThreshold;
+
     for (const spring of this.springs) {
       spring?.setRestDisplacementThreshold(displacementFromRestThreshold);
     }
@@ -1960,11 +2753,39 @@ export class MultiSpring<Numbers extends number[]> {
    * @param enabled Whether overshoot clamping is enabled
    */
   setOvershootClampingEnabled(enabled: boolean): void {
+    this.overshootClampingEnabled = enabled;
+
     for (const spring of this.springs) {
       spring?.setOvershootClampingEnabled(enabled);
     }
   }
 
+  /**
+   * Enable vector rest detection. This means that the rest thresholds
+   * apply to the magnitude of the displacement and velocity vectors of
+   * the springs, instead of to each component. All the components come
+   * to rest at the same moment, which keeps a diagonal motion from
+   * settling on one axis before the other.
+   *
+   * @param enabled Whether vector rest detection is enabled
+   */
+  setVectorRestDetectionEnabled(enabled: boolean): void {
+    this.vectorRestDetectionEnabled = enabled;
+
+    for (const spring of this.springs) {
+      spring?.setRestGroup(enabled ? this.springs : null);
+    }
+  }
+
+  /**
+   * Check if vector rest detection is enabled for the springs.
+   *
+   * @returns Whether vector rest detection is enabled
+   */
+  isVectorRestDetectionEnabled(): boolean {
+    return this.vectorRestDetectionEnabled;
+  }
+
   /**
    * Add a listener to the springs. This listener will be notified of
    * position updates for the springs.
@@ -1972,6 +2793,8 @@ export class MultiSpring<Numbers extends number[]> {
    * @param listener The listener to add
    */
   addListener(listener: SpringListener): void {
+    this.listeners.push(listener);
+
     for (const spring of this.springs) {
       spring?.addListener(listener);
     }
@@ -1983,6 +2806,8 @@ export class MultiSpring<Numbers extends number[]> {
    * @param listener The listener to remove
    */
   removeListener(listener: SpringListener): void {
+    removeFirst(this.listeners, listener);
+
     for (const spring of this.springs) {
       spring?.removeListener(listener);
     }
@@ -1992,8 +2817,229 @@ export class MultiSpring<Numbers extends number[]> {
    * Remove all previously added listeners on the springs.
    */
   removeAllListeners(): void {
+    this.listeners = [];
+
     for (const spring of this.springs) {
       spring?.removeAllListeners();
     }
   }
+
+  /**
+   * Remove the springs of the components past a number of components,
+   * e.g. when the points of a polygon are fewer, and notify the
+   * listeners of the remaining springs, so that they write the fewer
+   * components even if the remaining springs don't move.
+   *
+   * @param length The number of components to keep
+   */
+  private trim(length: number): void {
+    if (this.springs.length <= length) {
+      return;
+    }
+
+    for (const spring of this.springs.slice(length)) {
+      spring?.destroy();
+    }
+
+    // The array is truncated in place, as it is the rest group of the
+    // springs when vector rest detection is enabled
+    this.springs.length = length;
+    this.springs[0]?.notifyPositionUpdated(false, false);
+  }
+
+  /**
+   * Create a spring for a component, with the spring config, the
+   * listeners and the rest settings of the other springs, so that the
+   * components added later animate like the first ones.
+   *
+   * @param index The index of the component
+   * @returns The spring that was created
+   */
+  private createSpring(index: number): Spring {
+    const springConfig = this.getSpringConfig(index);
+    const spring = this.decayOptions
+      ? this.springSystem
+          .createDecaySimulation(this.decayOptions)
+          .setSpringConfig(springConfig)
+      : this.springSystem.createSpringWithConfig(springConfig);
+
+    if (this.vectorRestDetectionEnabled) {
+      spring.setRestGroup(this.springs);
+    }
+
+    if (this.restSpeedThreshold !== undefined) {
+      spring.setRestSpeedThreshold(this.restSpeedThreshold);
+    }
+
+    if (this.restDisplacementThreshold !== undefined) {
+      spring.setRestDisplacementThreshold(this.restDisplacementThreshold);
+    }
+
+    spring.setOvershootClampingEnabled(this.overshootClampingEnabled);
+
+    for (const listener of this.listeners) {
+      spring.addListener(listener);
+    }
+
+    return spring;
+  }
 }
+
+/**
+ * A `{@link MultiSpring}` that animates a color in a color space. The
+ * values are given and returned as RGB color tuples (or color strings,
+ * see `{@link hexToRGB}`), while the springs animate the components of
+ * the color space. Interpolating in a perceptual color space such as
+ * `oklab` or `oklch` avoids the muddy grays sRGB passes through.
+ *
+ * The velocities of the springs are in the units of the color space.
+ * The color always has an alpha component, which defaults to `1`.
+ *
+ * @example
+ * ```ts
+ * const color = new ColorSpring(springSystem, springConfig, "oklch");
+ *
+ * color.setCurrentValue("#ff0000");
+ * color.setEndValue("rgb(0 0 255)");
+ * ```
+ *
+ * **Methods**
+ * - `getColorSpace` - Gets the color space the color is animated in
+ * - `getCurrentValue` - Gets the current color
+ * - `setCurrentValue` - Sets the current color
+ * - `getEndValue` - Gets the end color
+ * - `setEndValue` - Sets the end color
+ */
+export class ColorSpring extends MultiSpring<ColorTuple> {
+  /**
+   * The color space the color is animated in.
+   */
+  private colorSpace: ColorSpace;
+
+  /**
+   * @constructor
+   * @param springSystem The spring system to use.
+   * @param springConfig The spring config to use, or the spring configs to use per component.
+   * @param colorSpace (Optional) The color space to animate the color in (Defaults to `"srgb"`).
+   * @param decayOptions (Optional) The options to create `{@link DecaySimulation}`s instead of Springs.
+   */
+  constructor(
+    springSystem: SpringSystem,
+    springConfig: SpringConfig | SpringConfig[],
+    colorSpace: ColorSpace = "srgb",
+    decayOptions?: DecaySimulationOptions
+  ) {
+    super(springSystem, springConfig, decayOptions);
+    this.colorSpace = colorSpace;
+  }
+
+  /**
+   * Get the color space the color is animated in.
+   *
+   * @returns The color space
+   */
+  getColorSpace(): ColorSpace {
+    return this.colorSpace;
+  }
+
+  /**
+   * Retrieve the current color, as an RGB color tuple.
+   *
+   * @returns The current color
+   */
+  getCurrentValue(): ColorTuple {
+    return fromColorSpace(super.getCurrentValue(), this.colorSpace);
+  }
+
+  /**
+   * Set the current color of the springs.
+   *
+   * @param currentValue The new start and current color
+   * @param skipSetAtRest (Optional) Whether to skip setting the springs at rest
+   */
+  setCurrentValue(
+    currentValue: ColorTuple | string,
+    skipSetAtRest?: boolean
+  ): void {
+    super.setCurrentValue(this.toComponents(currentValue), skipSetAtRest);
+  }
+
+  /**
+   * Retrieve the end color of the springs, as an RGB color tuple.
+   *
+   * @returns The end color
+   */
+  getEndValue(): ColorTuple {
+    return fromColorSpace(super.getEndValue(), this.colorSpace);
+  }
+
+  /**
+   * Set the end color of the springs. In the color spaces with a hue,
+   * the hue takes the shorter way around the hue circle.
+   *
+   * @param endValue The new end color
+   */
+  setEndValue(endValue: ColorTuple | string): void {
+    const components = this.toComponents(endValue);
+    const currentComponents = super.getCurrentValue();
+
+    // The springs are created by the first value that is set
+    if ((currentComponents as number[]).length === 0) {
+      super.setEndValue(components);
+      return;
+    }
+
+    const [from, to] = adjustHue(
+      currentComponents,
+      components,
+      this.colorSpace
+    );
+
+    // The hue of a gray is meaningless, so it takes the hue of the other color
+    if (from.some((component, i) => component !== currentComponents[i])) {
+      super.setCurrentValue(from, true);
+    }
+
+    super.setEndValue(to);
+  }
+
+  /**
+   * Convert a color to the components of the color space.
+   *
+   * @param color The color to convert
+   * @returns The components of the color, with an alpha component
+   */
+  private toComponents(color: ColorTuple | string): ColorTuple {
+    const [r, g, b, a = 1] =
+      typeof color === "string" ? colorToTuple(color) : color;
+
+    return toColorSpace([r, g, b, a], this.colorSpace);
+  }
+}
+
+/**
+ * The global spring system, shared by the animation hooks
+ * rendered outside of a `{@link SpringSystemProvider}`.
+ */
+let globalSpringSystem: SpringSystem;
+
+/**
+ * Sets the global spring system instance.
+ *
+ * @param springSystem (Optional) The spring system instance
+ */
+export const setGlobalSpringSystem = (springSystem?: SpringSystem) => {
+  globalSpringSystem = springSystem ?? new SpringSystem();
+};
+
+/**
+ * Gets the global spring system instance.
+ *
+ * @returns The global spring system instance
+ */
+export const getGlobalSpringSystem = () => {
+  if (!globalSpringSystem) {
+    setGlobalSpringSystem();
+  }
+  return globalSpringSystem;
+};
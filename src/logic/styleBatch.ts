@@ -0,0 +1,150 @@
+import type { StyleBatchUpdate } from "../types/logic.ts";
+
+import { cancelFrame, requestFrame } from "./animationClock.ts";
+import type { SpringSystem } from "./springs.ts";
+
+/**
+ * Batches the style writes of animated elements into a single pass
+ * per frame. All the styles (and the attributes of animated SVG
+ * elements) are computed first, then written to the elements, so that
+ * many animated elements don't interleave their `toStyle` computations
+ * and DOM writes.
+ *
+ * **Methods**
+ * - `schedule` - Schedule a style update for the next flush
+ * - `unschedule` - Remove a scheduled style update
+ * - `flush` - Compute and write all the scheduled style updates
+ * - `getLastFlushSize` - Get the number of elements written in the last flush
+ */
+export class StyleBatch {
+  /**
+   * The style updates to run on the next flush.
+   */
+  private _updates: Set<StyleBatchUpdate> = new Set();
+  /**
+   * The ID of the frame request of the next flush.
+   */
+  private _frameId: number | null = null;
+  /**
+   * The number of elements written in the last flush.
+   */
+  private _lastFlushSize: number = 0;
+
+  /**
+   * Schedule a style update for the next flush. The flush happens in
+   * the `write` phase of the next frame, after the springs are
+   * integrated in its `update` phase. Scheduling the same update more
+   * than once in a frame only writes the style once.
+   *
+   * @param update The style update to schedule
+   */
+  schedule(update: StyleBatchUpdate): void {
+    this._updates.add(update);
+
+    if (this._frameId === null) {
+      this._frameId = requestFrame(
+        () => {
+          this._frameId = null;
+          this.flush();
+        },
+        { phase: "write" }
+      );
+    }
+  }
+
+  /**
+   * Remove a scheduled style update, e.g. when its element unmounts.
+   *
+   * @param update The style update to remove
+   */
+  unschedule(update: StyleBatchUpdate): void {
+    this._updates.delete(update);
+  }
+
+  /**
+   * Compute and write all the scheduled style updates.
+   */
+  flush(): void {
+    if (this._frameId !== null) {
+      cancelFrame(this._frameId);
+      this._frameId = null;
+    }
+
+    if (this._updates.size === 0) {
+      return;
+    }
+
+    const updates = this._updates;
+    this._updates = new Set();
+
+    const writes: [
+      HTMLElement | SVGElement,
+      Partial<React.CSSProperties>,
+      Record<string, string> | undefined,
+    ][] = [];
+
+    for (const update of updates) {
+      const element = update.getElement();
+
+      if (element) {
+        writes.push([element, update.getStyle(), update.getAttributes?.()]);
+      }
+    }
+
+    for (const [element, style, attributes] of writes) {
+      for (const name in attributes) {
+        element.setAttribute(name, attributes[name] as string);
+      }
+
+      for (const p in style) {
+        const prop = p as keyof React.CSSProperties;
+
+        if (p.startsWith("--")) {
+          element.style.setProperty(p, style[prop] as string);
+          continue;
+        }
+
+        // @ts-expect-error: `style` is a CSSStyleDeclaration
+        element.style[
+          prop as Exclude<keyof CSSStyleDeclaration, "length" | "parentRule">
+        ] = style[prop];
+      }
+    }
+
+    this._lastFlushSize = writes.length;
+  }
+
+  /**
+   * Get the number of elements written in the last flush.
+   *
+   * @returns The number of elements written
+   */
+  getLastFlushSize(): number {
+    return this._lastFlushSize;
+  }
+}
+
+/**
+ * The style batches of the spring systems.
+ */
+const styleBatches = new WeakMap<SpringSystem, StyleBatch>();
+
+/**
+ * Get the style batch of a spring system. The batch is flushed in the
+ * `write` phase of the frame the spring system is integrated in, so
+ * that the styles of all its springs are written in the frame they
+ * were computed in.
+ *
+ * @param springSystem The spring system to get the batch of
+ * @returns The style batch of the spring system
+ */
+export const getStyleBatch = (springSystem: SpringSystem): StyleBatch => {
+  let styleBatch = styleBatches.get(springSystem);
+
+  if (!styleBatch) {
+    styleBatch = new StyleBatch();
+    styleBatches.set(springSystem, styleBatch);
+  }
+
+  return styleBatch;
+};
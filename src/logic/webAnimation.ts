@@ -0,0 +1,302 @@
+import type { WebAnimationFormat } from "../types/logic.ts";
+
+import { getAnimationClock, getFrameTime } from "./animationClock.ts";
+import { DecaySimulation, Spring } from "./springs.ts";
+import { solveSpring } from "./springSolver.ts";
+
+/**
+ * The duration of a keyframe at 60fps, in milliseconds.
+ */
+const FRAME_MS = 1000 / 60;
+
+/**
+ * The properties the browser can animate on the compositor, without
+ * the main thread.
+ */
+export const compositorProperties = {
+  opacity: true,
+  translateX: true,
+  translateY: true,
+  translateZ: true,
+  scaleX: true,
+  scaleY: true,
+  scaleZ: true,
+  rotateX: true,
+  rotateY: true,
+  rotateZ: true,
+  skewX: true,
+  skewY: true,
+  perspective: true,
+};
+
+/**
+ * Check if the springs of some properties can be run on the
+ * compositor with the Web Animations API: the properties are all
+ * compositor properties, the springs are plain springs without
+ * overshoot clamping, with a positive tension and friction that
+ * `{@link solveSpring}` can solve, and the element supports
+ * `element.animate()`.
+ * An installed `{@link AnimationClock}` keeps the springs on the
+ * JavaScript loop, which the clock drives.
+ *
+ * @param element The animated element
+ * @param springs The springs of the animated properties
+ * @returns Whether the springs can run on the compositor
+ */
+export const canUseWebAnimations = (
+  element: HTMLElement | SVGElement | null | undefined,
+  springs: Record<string, object>
+): element is HTMLElement | SVGElement => {
+  if (
+    !element ||
+    typeof element.animate !== "function" ||
+    getAnimationClock()
+  ) {
+    return false;
+  }
+
+  return Object.entries(springs).every(([prop, spring]) => {
+    if (
+      !(prop in compositorProperties) ||
+      spring instanceof DecaySimulation ||
+      typeof (spring as Spring).isOvershootClampingEnabled !== "function" ||
+      (spring as Spring).isOvershootClampingEnabled()
+    ) {
+      return false;
+    }
+
+    // Coasting springs, without tension, glide instead of settling,
+    // and undamped springs never settle
+    const { tension, friction } = (spring as Spring).getSpringConfig();
+
+    return tension > 0 && friction > 0;
+  });
+};
+
+/**
+ * Runs the motion of springs with the Web Animations API, so that it
+ * runs on the compositor and survives stalls of the main thread.
+ *
+ * The springs are still the source of truth: they keep running on the
+ * SpringSystem, for their listeners and for the imperative API, and
+ * they are kept on the timeline of the web animation. When a spring
+ * leaves the timeline, e.g. because its end value, velocity or
+ * current value was set, the web animation is restarted from the
+ * current state of the springs. The curve of the web animation is
+ * computed with `{@link solveSpring}`.
+ *
+ * **Methods**
+ * - `getElement` - Get the animated element
+ * - `update` - Sync the web animation with a spring that was updated
+ * - `cancel` - Cancel the web animation
+ * - `isRunning` - Check if the web animation is running
+ */
+export class SpringWebAnimation {
+  /**
+   * The animated element.
+   */
+  private _element: HTMLElement | SVGElement;
+  /**
+   * Get the springs of the animated properties.
+   */
+  private _getSprings: () => Record<string, Spring>;
+  /**
+   * Format the values of the properties to a keyframe.
+   */
+  private _format: WebAnimationFormat;
+  /**
+   * The running web animation.
+   */
+  private _animation: Animation | null = null;
+  /**
+   * The time the web animation started at.
+   */
+  private _startTime: number = 0;
+  /**
+   * The solutions of the springs, with the end value they were solved
+   * for and the time the spring was last synced to the timeline.
+   */
+  private _solutions: Map<
+    Spring,
+    {
+      position: (time: number) => number;
+      velocity: (time: number) => number;
+      endValue: number;
+      syncTime: number;
+    }
+  > = new Map();
+  /**
+   * Whether the springs are being synced to the timeline.
+   */
+  private _syncing: boolean = false;
+
+  /**
+   * @constructor
+   * @param element The animated element
+   * @param getSprings Get the springs of the animated properties
+   * @param format Format the values of the properties to a keyframe
+   */
+  constructor(
+    element: HTMLElement | SVGElement,
+    getSprings: () => Record<string, Spring>,
+    format: WebAnimationFormat
+  ) {
+    this._element = element;
+    this._getSprings = getSprings;
+    this._format = format;
+  }
+
+  /**
+   * Get the animated element.
+   *
+   * @returns The animated element
+   */
+  getElement(): HTMLElement | SVGElement {
+    return this._element;
+  }
+
+  /**
+   * Sync the web animation with a spring that was updated. When the
+   * spring is on the timeline of the web animation, it is moved to the
+   * current time of the timeline. Otherwise, the web animation is
+   * restarted from the current state of the springs.
+   *
+   * @param spring The spring that was updated
+   * @returns Whether the web animation renders the springs, `false` once they are all at rest
+   */
+  update(spring: Spring): boolean {
+    if (this._syncing) {
+      return true;
+    }
+
+    const springs = Object.values(this._getSprings());
+
+    if (springs.every(s => s.isAtRest())) {
+      this.cancel();
+      return false;
+    }
+
+    const now = getFrameTime();
+    const solution = this._solutions.get(spring);
+
+    if (!this._animation || !solution || !this.isOnTimeline(spring, now)) {
+      this.start(springs, now);
+      return true;
+    }
+
+    // The spring may lag behind the timeline after a stall, as it
+    // only advances by `Spring.MAX_DELTA_TIME_SEC` per frame
+    const time = now - this._startTime;
+
+    this._syncing = true;
+    spring.setCurrentValue(solution.position(time), true);
+    spring.setVelocity(solution.velocity(time));
+    this._syncing = false;
+
+    solution.syncTime = now;
+
+    return true;
+  }
+
+  /**
+   * Cancel the web animation.
+   */
+  cancel(): void {
+    this._animation?.cancel();
+    this._animation = null;
+    this._solutions.clear();
+  }
+
+  /**
+   * Check if the web animation is running.
+   *
+   * @returns Whether the web animation is running
+   */
+  isRunning(): boolean {
+    return this._animation !== null;
+  }
+
+  /**
+   * Check if a spring is where the timeline of the web animation
+   * expects it, one integration step after it was last synced.
+   *
+   * @param spring The spring to check
+   * @param now The current frame time
+   * @returns Whether the spring is on the timeline
+   */
+  private isOnTimeline(spring: Spring, now: number): boolean {
+    const solution = this._solutions.get(spring);
+
+    if (!solution || solution.endValue !== spring.getEndValue()) {
+      return false;
+    }
+
+    const step = Math.min(
+      now - solution.syncTime,
+      Spring.MAX_DELTA_TIME_SEC * 1000
+    );
+    const expected = solution.position(
+      solution.syncTime - this._startTime + step
+    );
+    const tolerance = Math.max(
+      spring.getRestDisplacementThreshold(),
+      Math.abs(solution.endValue - solution.position(0)) * 0.01
+    );
+
+    return Math.abs(spring.getCurrentValue() - expected) <= tolerance;
+  }
+
+  /**
+   * Start the web animation from the current state of the springs.
+   *
+   * @param springs The springs of the animated properties
+   * @param now The current frame time
+   */
+  private start(springs: Spring[], now: number): void {
+    const props = this._getSprings();
+    let duration = 0;
+
+    this._animation?.cancel();
+    this._solutions.clear();
+    this._startTime = now;
+
+    for (const spring of springs) {
+      const solution = solveSpring(spring.getSpringConfig(), {
+        from: spring.getCurrentValue(),
+        to: spring.getEndValue(),
+        velocity: spring.getVelocity(),
+        restDisplacementThreshold: spring.getRestDisplacementThreshold(),
+        restSpeedThreshold: spring.getRestSpeedThreshold(),
+      });
+
+      duration = Math.max(duration, solution.duration);
+      this._solutions.set(spring, {
+        position: solution.position,
+        velocity: solution.velocity,
+        endValue: spring.getEndValue(),
+        syncTime: now,
+      });
+    }
+
+    const keyframes: Keyframe[] = [];
+    const frames = Math.max(1, Math.ceil(duration / FRAME_MS));
+
+    for (let i = 0; i <= frames; i++) {
+      const time = (duration * i) / frames;
+      const values: Record<string, number> = {};
+
+      for (const prop in props) {
+        const solution = this._solutions.get(props[prop] as Spring);
+        values[prop] = solution ? solution.position(time) : 0;
+      }
+
+      keyframes.push({ ...this._format(values), offset: i / frames });
+    }
+
+    this._animation = this._element.animate(keyframes, {
+      duration: Math.max(duration, 1),
+      easing: "linear",
+      fill: "forwards",
+    });
+  }
+}
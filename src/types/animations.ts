@@ -1,6 +1,21 @@
-import type { MultiSpring, Spring } from "../logic/springs.ts";
+import type { AnimatedValue, SpringValue } from "../logic/animatedValue.ts";
+import type { colorProperties } from "../logic/animation.ts";
+import type { ColorSpring, MultiSpring, Spring } from "../logic/springs.ts";
 
-import type { AnimatableProps } from "./logic.ts";
+import type {
+  AnimatableCustomProperties,
+  AnimatableProps,
+  ColorSpace,
+  CSSUnit,
+  DecaySimulationOptions,
+  DragBounds,
+  DragPoint,
+  LayoutTransform,
+  ScrollAxis,
+  SpringConfigInput,
+  StyleBatchUpdate,
+  TransformOptions,
+} from "./logic.ts";
 
 /**
  * Type alias for the return value of the {@link useTimeout} and {@link useTimeoutFn} hooks.
@@ -23,22 +38,94 @@ export type UseTimeoutFnReturn = [
   reset: () => void,
 ];
 
+/**
+ * Type alias for the return value of the {@link usePresence} hook.
+ */
+export type UsePresenceReturn = [
+  /**
+   * Whether the component is still present. Removed children of an
+   * AnimatePresence are not present while they animate out.
+   */
+  isPresent: boolean,
+  /**
+   * The function to call when the exit animation is complete, to
+   * unmount the component.
+   */
+  safeToRemove: () => void,
+];
+
 /**
  * Type alias for the spring for a specific property.
  */
 export type SpringForAnimatableProp<Prop extends keyof AnimatableProps> =
-  AnimatableProps[Prop] extends number[]
-    ? MultiSpring<AnimatableProps[Prop]>
-    : Spring;
+  Prop extends keyof typeof colorProperties
+    ? ColorSpring
+    : Prop extends keyof AnimatableCustomProperties
+      ? ColorSpring | Spring
+      : AnimatableProps[Prop] extends number[]
+        ? MultiSpring<AnimatableProps[Prop]>
+        : Spring;
+
+/**
+ * Type alias for the options of the {@link useSpring} hook.
+ */
+export interface UseSpringOptions {
+  /**
+   * The velocity to launch the spring with, in units per second.
+   * Changing it launches the spring again from its current value.
+   */
+  velocity?: number;
+  /**
+   * A key that launches the spring again with the `velocity` when it
+   * changes, e.g. a counter incremented on each release, so that two
+   * flicks with the same velocity both launch the spring.
+   */
+  launchKey?: number | string;
+  /**
+   * Whether the spring should glide from its velocity and come to a
+   * stop (see `{@link DecaySimulation}`). Pass an object to configure
+   * the friction and the bounds of the glide, which can change while
+   * the spring runs. Changing the target value still springs to the
+   * new value.
+   */
+  decay?: boolean | DecaySimulationOptions;
+}
+
+/**
+ * Type alias for the properties bound to an element by the
+ * {@link useAnimatedStyle} hook, as animated values or static values.
+ */
+export type AnimatedStyle = {
+  [Prop in keyof AnimatableProps]?:
+    | AnimatedValue<AnimatableProps[Prop]>
+    | AnimatableProps[Prop];
+};
+
+/**
+ * Type alias for named sets of animated properties, e.g.
+ * `{ hidden: { opacity: 0 }, visible: { opacity: 1 } }`.
+ */
+export type Variants = Record<string, Partial<AnimatableProps>>;
 
 /**
  * Type alias for the options of the animation.
  */
-export interface UseAnimationOptions {
+export interface UseAnimationOptions extends TransformOptions {
   /**
-   * Whether to animate the properties.
+   * Whether to animate the properties, or the name of the variant to
+   * animate to. The properties of the variant override the animated
+   * properties.
    */
-  animate?: boolean;
+  animate?: boolean | string;
+  /**
+   * The variants the `animate` and `initial` options can refer to.
+   */
+  variants?: Variants;
+  /**
+   * The properties, or the name of the variant, to start the animation
+   * of each property from when its spring is created, e.g. on mount.
+   */
+  initial?: string | Partial<AnimatableProps>;
   /**
    * The tension of the spring.
    */
@@ -47,6 +134,12 @@ export interface UseAnimationOptions {
    * The friction of the spring.
    */
   friction?: number;
+  /**
+   * The config of the spring in any of the forms accepted by
+   * `{@link SpringConfig.from}`, e.g. `"wobbly"` or
+   * `{ stiffness: 300, damping: 20 }`. Overrides `tension` and `friction`.
+   */
+  config?: SpringConfigInput;
   /**
    * The delay of the animation.
    */
@@ -63,6 +156,27 @@ export interface UseAnimationOptions {
    * Whether to clamp the spring.
    */
   clamp?: boolean;
+  /**
+   * The color space to interpolate the color properties in, e.g.
+   * `"oklab"` to avoid the muddy grays of `"srgb"` (see `{@link ColorSpring}`).
+   */
+  colorSpace?: ColorSpace;
+  /**
+   * Whether the springs should glide from their velocity and come to
+   * a stop (see `{@link DecaySimulation}`), instead of springing to the
+   * velocity-less end value. Pass an object to configure the friction
+   * and the bounds of the glide. Changing the properties still springs
+   * to the new values.
+   */
+  decay?: boolean | DecaySimulationOptions;
+  /**
+   * Whether to run the animations with the Web Animations API when
+   * only transforms and opacity are animated, so that they run on the
+   * compositor and survive stalls of the main thread (see
+   * `{@link SpringWebAnimation}`). The springs fall back to the
+   * JavaScript loop for the other properties (Defaults to `true`).
+   */
+  webAnimations?: boolean;
   /**
    * The callback to call when the animation starts.
    */
@@ -73,6 +187,378 @@ export interface UseAnimationOptions {
   onEnd?: () => void;
 }
 
+/**
+ * Type alias for the options of the {@link useLayoutAnimation} hook.
+ */
+export interface UseLayoutAnimationOptions {
+  /**
+   * Whether to animate the changes of the layout of the element.
+   */
+  layout?: boolean;
+  /**
+   * The ID of a shared layout. When an element with this ID mounts
+   * as another one with the same ID unmounts, it animates from where
+   * the other element was seen.
+   */
+  layoutId?: string;
+}
+
+/**
+ * Type alias for the springs animating a layout.
+ */
+export type LayoutSprings = Partial<Record<keyof LayoutTransform, Spring>>;
+
+/**
+ * Type alias for the options of a step of an animation sequence.
+ */
+export interface AnimationStepOptions {
+  /**
+   * The properties to start the animation from. By default, the
+   * animation starts from the current value of the previous step, or
+   * from the computed style of the element.
+   */
+  from?: Partial<AnimatableProps>;
+  /**
+   * The tension of the spring.
+   */
+  tension?: number;
+  /**
+   * The friction of the spring.
+   */
+  friction?: number;
+  /**
+   * The config of the spring, overriding `tension` and `friction`.
+   */
+  config?: SpringConfigInput;
+  /**
+   * The color space to interpolate the color properties in.
+   */
+  colorSpace?: ColorSpace;
+}
+
+/**
+ * Type alias for a step of an animation sequence, animating the
+ * properties of an element.
+ */
+export interface AnimationStep extends AnimationStepOptions {
+  /**
+   * The reference to the element to animate.
+   */
+  ref: React.RefObject<HTMLElement | SVGElement | null | undefined>;
+  /**
+   * The properties to animate to.
+   */
+  to: Partial<AnimatableProps>;
+}
+
+/**
+ * Type alias for a step of an animation sequence:
+ * - An `AnimationStep` - Animate an element
+ * - An array of `AnimationStep` - Animate the elements in parallel
+ * - A number - Wait for a number of milliseconds
+ */
+export type AnimationSequenceStep = AnimationStep | AnimationStep[] | number;
+
+/**
+ * Type alias for the spring of any animatable property.
+ */
+export type AnimatableSpring = ColorSpring | MultiSpring<number[]> | Spring;
+
+/**
+ * Type alias for an element animated by an animation sequence.
+ */
+export interface AnimationSequenceTarget {
+  /**
+   * The springs of the animated properties.
+   */
+  springs: Partial<Record<keyof AnimatableProps, AnimatableSpring>>;
+  /**
+   * The units of the animated lengths.
+   */
+  units: Partial<Record<keyof AnimatableProps, CSSUnit>>;
+  /**
+   * The style update of the element.
+   */
+  update: StyleBatchUpdate;
+}
+
+/**
+ * Type alias for the return value of the {@link useAnimationSequence} hook.
+ */
+export interface UseAnimationSequenceReturn {
+  /**
+   * Animate the properties of an element.
+   *
+   * @param ref The reference to the element to animate.
+   * @param to The properties to animate to.
+   * @param options (Optional) The options of the animation.
+   * @returns A promise resolving to `true` when the springs come to rest, or `false` when stopped.
+   */
+  animate: (
+    ref: AnimationStep["ref"],
+    to: Partial<AnimatableProps>,
+    options?: AnimationStepOptions
+  ) => Promise<boolean>;
+  /**
+   * Wait for a number of milliseconds, on the animation frames.
+   *
+   * @param ms The number of milliseconds to wait.
+   * @returns A promise resolving to `true` after the wait, or `false` when stopped.
+   */
+  wait: (ms: number) => Promise<boolean>;
+  /**
+   * Play steps one after the other.
+   *
+   * @param steps The steps to play.
+   * @returns A promise per step, resolving to `true` when the step is done, or `false` when stopped.
+   */
+  play: (steps: AnimationSequenceStep[]) => Promise<boolean>[];
+  /**
+   * Stop the animations and the steps that are playing.
+   */
+  stop: () => void;
+}
+
+/**
+ * Type alias for the direction a tween plays in.
+ * - `1` - Forward, from `0` to `1`
+ * - `-1` - Backward, from `1` to `0`
+ */
+export type TweenDirection = 1 | -1;
+
+/**
+ * Type alias for the options of the {@link useTweenController} hook.
+ */
+export interface UseTweenControllerOptions {
+  /**
+   * Whether to play the tween when the component mounts (Defaults to `false`).
+   */
+  autoPlay?: boolean;
+  /**
+   * Whether to play the tween again when it ends, or the number of
+   * times to play it again (Defaults to `false`).
+   */
+  loop?: boolean | number;
+  /**
+   * Whether a looping tween plays back and forth, instead of starting
+   * over from its start (Defaults to `false`).
+   */
+  yoyo?: boolean;
+  /**
+   * The callback to call when the tween ends, in either direction.
+   */
+  onEnd?: () => void;
+}
+
+/**
+ * Type alias for the return value of the {@link useTweenController} hook.
+ */
+export interface UseTweenControllerReturn {
+  /**
+   * The eased value of the tween.
+   */
+  value: number;
+  /**
+   * The progress of the tween, between `0` and `1`, before easing.
+   */
+  progress: number;
+  /**
+   * Whether the tween is playing.
+   */
+  isPlaying: boolean;
+  /**
+   * The direction the tween plays in.
+   */
+  direction: TweenDirection;
+  /**
+   * Play the tween from its progress. A tween that ended starts over
+   * from its start.
+   */
+  play: () => void;
+  /**
+   * Pause the tween at its progress.
+   */
+  pause: () => void;
+  /**
+   * Play the tween in the other direction from its progress.
+   */
+  reverse: () => void;
+  /**
+   * Move the tween to a progress, without changing whether it plays.
+   *
+   * @param progress The progress to move to, between `0` and `1`.
+   */
+  seek: (progress: number) => void;
+  /**
+   * Play the tween forward from `0`.
+   */
+  restart: () => void;
+}
+
+/**
+ * Type alias for the axes an element can be dragged along.
+ * - `"x"` - Only horizontally
+ * - `"y"` - Only vertically
+ * - `"lock"` - Along the axis the pointer first moves along
+ */
+export type DragAxis = "x" | "y" | "lock";
+
+/**
+ * Type alias for the state of a drag gesture, passed to the callbacks
+ * of the {@link useDrag} hook.
+ */
+export interface DragInfo {
+  /**
+   * The x position of the element, in pixels.
+   */
+  x: number;
+  /**
+   * The y position of the element, in pixels.
+   */
+  y: number;
+  /**
+   * The x velocity of the pointer, in pixels per second.
+   */
+  velocityX: number;
+  /**
+   * The y velocity of the pointer, in pixels per second.
+   */
+  velocityY: number;
+  /**
+   * The axis the gesture is locked to, if any.
+   */
+  axis: "x" | "y" | null;
+  /**
+   * The pointer event of the gesture.
+   */
+  event: PointerEvent;
+}
+
+/**
+ * Type alias for the options of the {@link useDrag} hook.
+ */
+export interface UseDragOptions {
+  /**
+   * The axes the element can be dragged along (Defaults to both axes).
+   */
+  axis?: DragAxis;
+  /**
+   * The bounds of the position, or the element to keep the dragged
+   * element within.
+   */
+  bounds?: DragBounds | React.RefObject<HTMLElement | null | undefined>;
+  /**
+   * Whether the element stretches past its bounds while dragged, or
+   * the elasticity of the stretch (Defaults to `0.15`).
+   */
+  rubberband?: boolean | number;
+  /**
+   * The positions the element settles at when released, the nearest
+   * one to where its momentum carries it being picked.
+   */
+  snapPoints?: DragPoint[];
+  /**
+   * Whether the element glides with the velocity it is released
+   * with, or the friction of the glide per second (Defaults to `true`,
+   * with the friction of a `{@link DecaySimulation}`).
+   */
+  momentum?: boolean | number;
+  /**
+   * The distance the pointer moves, in pixels, before the gesture
+   * starts (Defaults to `3`).
+   */
+  threshold?: number;
+  /**
+   * The config of the springs the element settles with (Defaults to
+   * `"default"`).
+   */
+  config?: SpringConfigInput;
+  /**
+   * The position to start at (Defaults to `{ x: 0, y: 0 }`).
+   */
+  initial?: DragPoint;
+  /**
+   * Whether the element can't be dragged.
+   */
+  disabled?: boolean;
+  /**
+   * The callback to call when the gesture starts.
+   */
+  onDragStart?: (info: DragInfo) => void;
+  /**
+   * The callback to call when the pointer moves during the gesture.
+   */
+  onDrag?: (info: DragInfo) => void;
+  /**
+   * The callback to call when the element is released.
+   */
+  onDragEnd?: (info: DragInfo) => void;
+}
+
+/**
+ * Type alias for the return value of the {@link useDrag} hook.
+ */
+export interface UseDragReturn {
+  /**
+   * The x position of the element, in pixels.
+   */
+  x: SpringValue;
+  /**
+   * The y position of the element, in pixels.
+   */
+  y: SpringValue;
+  /**
+   * Whether the element is being dragged.
+   */
+  isDragging: boolean;
+}
+
+/**
+ * Type alias for what the {@link useSmoothScroll} hook scrolls to: a
+ * scroll position, an element, or the selector of an element.
+ */
+export type SmoothScrollTarget = number | Element | string;
+
+/**
+ * Type alias for the options of a smooth scroll.
+ */
+export interface SmoothScrollOptions {
+  /**
+   * The distance to stop before the target, in pixels, e.g. the
+   * height of a sticky header (Defaults to `0`).
+   */
+  offset?: number;
+  /**
+   * The config of the spring that scrolls (Defaults to `"default"`).
+   */
+  config?: SpringConfigInput;
+  /**
+   * The axis to scroll along (Defaults to `"y"`).
+   */
+  axis?: ScrollAxis;
+}
+
+/**
+ * Type alias for the return value of the {@link useSmoothScroll} hook.
+ */
+export interface UseSmoothScrollReturn {
+  /**
+   * Scroll to a target with a spring, stopping the scroll in progress.
+   *
+   * @param target The scroll position, the element, or the selector of the element to scroll to.
+   * @param options The options of the scroll.
+   * @returns A promise resolving to `true` when the scroll is done, or `false` when it is stopped.
+   */
+  scrollTo: (
+    target: SmoothScrollTarget,
+    options?: SmoothScrollOptions
+  ) => Promise<boolean>;
+  /**
+   * Stop the scroll in progress.
+   */
+  cancel: () => void;
+}
+
 /**
  * Type alias for the state of the animation.
  */
@@ -1,7 +1,13 @@
+import type { AnimationClock } from "../logic/animationClock.ts";
 import type { Keystrokes } from "../logic/keystrokes.ts";
+import type { SpringSystem } from "../logic/springs.ts";
 
-import type { UseAnimationOptions } from "./animations.ts";
+import type {
+  UseAnimationOptions,
+  UseLayoutAnimationOptions,
+} from "./animations.ts";
 import type { AnimatableProps } from "./logic.ts";
+import type { UseFrameStatsOptions } from "./sensors.ts";
 
 /**
  * Type alias for the Keystrokes context.
@@ -22,6 +28,188 @@ export interface KeystrokesProviderProps {
   children: React.ReactNode;
 }
 
+/**
+ * Type alias for the AnimationClock context.
+ */
+export type AnimationClockContextData = () => AnimationClock | null;
+
+/**
+ * Type alias for the AnimationClock provider props.
+ */
+export interface AnimationClockProviderProps {
+  /**
+   * (Optional) The clock to install. A new clock is created if omitted.
+   */
+  clock?: AnimationClock | undefined;
+  /**
+   * The children to render within the provider.
+   */
+  children: React.ReactNode;
+}
+
+/**
+ * Type alias for the SpringSystem context.
+ */
+export type SpringSystemContextData = () => SpringSystem;
+
+/**
+ * Type alias for the SpringSystem provider props.
+ */
+export interface SpringSystemProviderProps {
+  /**
+   * (Optional) The spring system to share. A new spring system is created if omitted.
+   */
+  springSystem?: SpringSystem | undefined;
+  /**
+   * The children to render within the provider.
+   */
+  children: React.ReactNode;
+}
+
+/**
+ * Type alias for the reduced motion policy of a MotionConfig.
+ * - `user` - Reduce the motion when the user prefers reduced motion
+ * - `always` - Always reduce the motion
+ * - `never` - Never reduce the motion
+ */
+export type ReducedMotion = "user" | "always" | "never";
+
+/**
+ * Type alias for the motion config shared by the animation hooks.
+ */
+export interface MotionConfigData {
+  /**
+   * The reduced motion policy.
+   */
+  reducedMotion: ReducedMotion;
+  /**
+   * Whether the opacity keeps animating when the motion is reduced, so
+   * that the elements still fade in and out.
+   */
+  animateOpacity: boolean;
+}
+
+/**
+ * Type alias for the MotionConfig context.
+ */
+export type MotionConfigContextData = () => MotionConfigData;
+
+/**
+ * Type alias for the MotionConfig component props.
+ */
+export interface MotionConfigProps {
+  /**
+   * (Optional) The reduced motion policy. Inherited from the parent MotionConfig if omitted.
+   */
+  reducedMotion?: ReducedMotion | undefined;
+  /**
+   * (Optional) Whether the opacity keeps animating when the motion is reduced. Inherited from the parent MotionConfig if omitted.
+   */
+  animateOpacity?: boolean | undefined;
+  /**
+   * The children to render within the config.
+   */
+  children: React.ReactNode;
+}
+
+/**
+ * Type alias for the presence of a child of an AnimatePresence.
+ */
+export interface Presence {
+  /**
+   * Whether the child is still in the children of the AnimatePresence.
+   */
+  isPresent: boolean;
+  /**
+   * Signal that the exit animation of the child is complete, so that
+   * it can be unmounted.
+   */
+  onExitComplete: () => void;
+  /**
+   * Signal that the child uses its presence, so that it is kept
+   * mounted until its exit animation is complete. The children that
+   * don't are unmounted as soon as they are removed.
+   */
+  register: () => void;
+}
+
+/**
+ * Type alias for the Presence context, `null` outside of an AnimatePresence.
+ */
+export type PresenceContextData = () => Presence | null;
+
+/**
+ * Type alias for the AnimatePresence component props.
+ */
+export interface AnimatePresenceProps {
+  /**
+   * The keyed children to animate in and out.
+   */
+  children?: React.ReactNode;
+  /**
+   * (Optional) The callback to call when all the removed children are unmounted.
+   */
+  onExitComplete?: () => void;
+}
+
+/**
+ * Type alias for the variants an Animate propagates to the Animate
+ * components within it.
+ */
+export interface VariantState {
+  /**
+   * The name of the variant to animate to.
+   */
+  animate?: string | undefined;
+  /**
+   * The name of the variant to start from.
+   */
+  initial?: string | undefined;
+}
+
+/**
+ * Type alias for the Variant context, `null` outside of an Animate.
+ */
+export type VariantContextData = () => VariantState | null;
+
+/**
+ * Type alias for the direction the children of an AnimateGroup are
+ * staggered in.
+ * - `forward` - From the first child to the last child
+ * - `reverse` - From the last child to the first child
+ * - `center` - From the center children out to the first and last children
+ * - `edges` - From the first and last children in to the center children
+ */
+export type StaggerDirection = "forward" | "reverse" | "center" | "edges";
+
+/**
+ * Type alias for the AnimateGroup context, the delay added to the
+ * animations of a child of the group.
+ */
+export type AnimateGroupContextData = () => number;
+
+/**
+ * Type alias for the AnimateGroup component props.
+ */
+export interface AnimateGroupProps {
+  /**
+   * (Optional) The delay between the animations of two consecutive children, in milliseconds.
+   */
+  stagger?: number;
+  /**
+   * (Optional) The direction to stagger the children in.
+   */
+  direction?: StaggerDirection;
+  /**
+   * (Optional) The delay before the animation of the first child, in milliseconds.
+   */
+  delay?: number;
+  /**
+   * The children to stagger.
+   */
+  children?: React.ReactNode;
+}
+
 /**
  * Type alias for the Animate component ref.
  */
@@ -62,7 +250,14 @@ export interface AnimateComponentRef {
  */
 export interface AnimateComponentProps
   extends UseAnimationOptions,
+    UseLayoutAnimationOptions,
     Partial<AnimatableProps> {
+  /**
+   * The properties, or the name of the variant, to animate to when the
+   * component is removed from an `{@link AnimatePresence}`, before it
+   * is unmounted.
+   */
+  exit?: Partial<AnimatableProps> | string;
   /**
    * The children to animate.
    */
@@ -70,3 +265,13 @@ export interface AnimateComponentProps
     | React.ReactElement<any>
     | ((animating: boolean) => React.ReactElement<any>);
 }
+
+/**
+ * Type alias for the FrameStatsOverlay props.
+ */
+export interface FrameStatsOverlayProps extends UseFrameStatsOptions {
+  /**
+   * (Optional) The corner of the viewport to show the overlay in (Defaults to `"top-right"`).
+   */
+  position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+}
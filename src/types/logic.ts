@@ -1,8 +1,10 @@
 import type {
+  filterProperties,
   numericalProperties,
+  svgAttributes,
   transformProperties,
 } from "../logic/animation.ts";
-import type { Spring, SpringSystem } from "../logic/springs.ts";
+import type { Spring, SpringConfig, SpringSystem } from "../logic/springs.ts";
 
 /**
  * Type alias for a cookie read converter.
@@ -250,6 +252,80 @@ export interface HarmonicIntervalData {
  */
 export type EasingFn = (time: number) => number;
 
+/**
+ * Type alias for the direction of an easing function.
+ * - `in` - The easing happens at the start
+ * - `out` - The easing happens at the end
+ * - `inOut` - The easing happens at the start and at the end
+ */
+export type EasingDirection = "in" | "out" | "inOut";
+
+/**
+ * Type alias for the position of the jumps of a step easing, like the
+ * CSS `steps()` function.
+ * - `jump-start` / `start` - The first jump happens at the start
+ * - `jump-end` / `end` - The last jump happens at the end
+ * - `jump-none` - No jump at the start nor at the end
+ * - `jump-both` - A jump at the start and at the end
+ */
+export type StepPosition =
+  | "jump-start"
+  | "jump-end"
+  | "jump-none"
+  | "jump-both"
+  | "start"
+  | "end";
+
+/**
+ * Type alias for the options of the {@link backEasing} factory.
+ */
+export interface BackEasingOptions {
+  /**
+   * The direction of the easing (Defaults to `"out"`).
+   */
+  direction?: EasingDirection;
+  /**
+   * How far the easing goes back past its start or end (Defaults to `1.70158`, a 10% overshoot).
+   */
+  overshoot?: number;
+}
+
+/**
+ * Type alias for the options of the {@link elasticEasing} factory.
+ */
+export interface ElasticEasingOptions {
+  /**
+   * The direction of the easing (Defaults to `"out"`).
+   */
+  direction?: EasingDirection;
+  /**
+   * The amplitude of the oscillations, at least `1` (Defaults to `1`).
+   */
+  amplitude?: number;
+  /**
+   * The period of the oscillations, as a fraction of the duration (Defaults to `0.3`).
+   */
+  period?: number;
+}
+
+/**
+ * Type alias for the options of the {@link bounceEasing} factory.
+ */
+export interface BounceEasingOptions {
+  /**
+   * The direction of the easing (Defaults to `"out"`).
+   */
+  direction?: EasingDirection;
+  /**
+   * The number of bounces after the first impact (Defaults to `3`).
+   */
+  bounces?: number;
+  /**
+   * The ratio of the speed kept on each bounce, between `0` and `1` (Defaults to `0.5`).
+   */
+  restitution?: number;
+}
+
 /**
  * Type alias for the map of easing functions.
  */
@@ -368,8 +444,29 @@ export interface RGBColor {
   r: number;
   g: number;
   b: number;
+  a?: number;
 }
 
+/**
+ * Type alias for a color as a tuple of red, green and blue
+ * components (between `0` and `255`), with an optional alpha
+ * component (between `0` and `1`).
+ */
+export type ColorTuple =
+  | [r: number, g: number, b: number]
+  | [r: number, g: number, b: number, a: number];
+
+/**
+ * Type alias for the color spaces colors can be interpolated in.
+ *
+ * - `srgb` - Interpolate the gamma-encoded red, green and blue components
+ * - `linear-srgb` - Interpolate the red, green and blue light intensities
+ * - `hsl` - Interpolate the hue, saturation and lightness
+ * - `oklab` - Interpolate in the perceptually uniform OKLab space
+ * - `oklch` - Interpolate the lightness, chroma and hue of OKLab
+ */
+export type ColorSpace = "srgb" | "linear-srgb" | "hsl" | "oklab" | "oklch";
+
 /**
  * Type alias for a general Looper class.
  */
@@ -420,6 +517,535 @@ export interface SpringListener {
   onSpringAtRest?: ((spring: Spring) => void) | undefined;
 }
 
+/**
+ * Type alias for the names of the spring config presets.
+ */
+export type SpringConfigPresetName =
+  | "default"
+  | "gentle"
+  | "wobbly"
+  | "stiff"
+  | "slow"
+  | "molasses";
+
+/**
+ * Type alias for a spring config given as Rebound tension and friction.
+ */
+export interface TensionFrictionSpringConfig {
+  /**
+   * The tension of the spring.
+   */
+  tension: number;
+  /**
+   * The friction of the spring.
+   */
+  friction: number;
+}
+
+/**
+ * Type alias for a spring config given as physical mass, stiffness and damping.
+ */
+export interface PhysicalSpringConfig {
+  /**
+   * The mass attached to the spring (Defaults to `1`).
+   */
+  mass?: number | undefined;
+  /**
+   * The stiffness of the spring.
+   */
+  stiffness: number;
+  /**
+   * The damping of the spring.
+   */
+  damping: number;
+}
+
+/**
+ * Type alias for a spring config given as a damping ratio and stiffness.
+ */
+export interface DampingRatioSpringConfig {
+  /**
+   * The mass attached to the spring (Defaults to `1`).
+   */
+  mass?: number | undefined;
+  /**
+   * The stiffness of the spring.
+   */
+  stiffness: number;
+  /**
+   * The damping ratio of the spring, `1` being critically damped.
+   */
+  dampingRatio: number;
+}
+
+/**
+ * Type alias for a spring config given as a perceptual duration and bounce.
+ */
+export interface DurationBounceSpringConfig {
+  /**
+   * The perceptual duration of the spring, in milliseconds.
+   */
+  duration: number;
+  /**
+   * The bounce of the spring, between `-1` and `1` (Defaults to `0`).
+   */
+  bounce?: number | undefined;
+}
+
+/**
+ * Type alias for any of the forms a spring config can be given in,
+ * see `{@link SpringConfig.from}`.
+ */
+export type SpringConfigInput =
+  | SpringConfig
+  | SpringConfigPresetName
+  | TensionFrictionSpringConfig
+  | PhysicalSpringConfig
+  | DampingRatioSpringConfig
+  | DurationBounceSpringConfig;
+
+/**
+ * Type alias for the options of a DecaySimulation.
+ */
+export interface DecaySimulationOptions {
+  /**
+   * The friction of the simulation, per second. The velocity is
+   * multiplied by `e^(-friction)` every second.
+   */
+  friction?: number | undefined;
+  /**
+   * The lower bound of the simulation.
+   */
+  min?: number | undefined;
+  /**
+   * The upper bound of the simulation.
+   */
+  max?: number | undefined;
+}
+
+/**
+ * Type alias for the options of the closed-form spring solver.
+ */
+export interface SpringSolverOptions {
+  /**
+   * The value the spring starts at (Defaults to `0`).
+   */
+  from?: number | undefined;
+  /**
+   * The value the spring comes to rest at (Defaults to `1`).
+   */
+  to?: number | undefined;
+  /**
+   * The initial velocity of the spring, in units per second (Defaults to `0`).
+   */
+  velocity?: number | undefined;
+  /**
+   * The mass attached to the spring (Defaults to `1`).
+   */
+  mass?: number | undefined;
+  /**
+   * The damping ratio of the spring. When set, it overrides the
+   * friction of the spring config: `1` is critically damped, lower
+   * values bounce and higher values crawl to the end value.
+   */
+  dampingRatio?: number | undefined;
+  /**
+   * The displacement below which the spring is considered at rest (Defaults to `0.001`).
+   */
+  restDisplacementThreshold?: number | undefined;
+  /**
+   * The speed below which the spring is considered at rest (Defaults to `0.001`).
+   */
+  restSpeedThreshold?: number | undefined;
+}
+
+/**
+ * Type alias for the solution of the closed-form spring solver.
+ */
+export interface SpringSolution {
+  /**
+   * The time it takes the spring to come to rest, in milliseconds.
+   */
+  duration: number;
+  /**
+   * Get the position of the spring at a given time.
+   *
+   * @param time The time in milliseconds
+   * @returns The position of the spring
+   */
+  position: (time: number) => number;
+  /**
+   * Get the velocity of the spring at a given time.
+   *
+   * @param time The time in milliseconds
+   * @returns The velocity of the spring, in units per second
+   */
+  velocity: (time: number) => number;
+}
+
+/**
+ * Type alias for the options of the functions sampling a spring curve.
+ */
+export interface SpringSamplingOptions extends SpringSolverOptions {
+  /**
+   * The number of samples to take along the curve
+   * (Defaults to one sample per frame at 60fps).
+   */
+  samples?: number | undefined;
+}
+
+/**
+ * Type alias for the options of the `{@link springToKeyframes}` function.
+ */
+export interface SpringKeyframesOptions extends SpringSamplingOptions {
+  /**
+   * Format a sampled value as a CSS value, e.g. to append a unit
+   * (Defaults to the raw number).
+   *
+   * @param value The sampled value
+   * @returns The CSS value
+   */
+  format?: ((value: number) => string | number) | undefined;
+}
+
+/**
+ * Type alias for the keyframes of a spring curve.
+ */
+export interface SpringKeyframes {
+  /**
+   * The Web Animations keyframes of the spring curve.
+   */
+  keyframes: Keyframe[];
+  /**
+   * The time it takes the spring to come to rest, in milliseconds.
+   */
+  duration: number;
+}
+
+/**
+ * Type alias for a style update scheduled on a StyleBatch.
+ */
+export interface StyleBatchUpdate {
+  /**
+   * Get the element to write the style to, if it is still mounted.
+   */
+  getElement: () => HTMLElement | SVGElement | null | undefined;
+  /**
+   * Compute the style to write to the element.
+   */
+  getStyle: () => Partial<React.CSSProperties>;
+  /**
+   * (Optional) Compute the attributes to set on the element, e.g. the
+   * animated attributes of an SVG element.
+   */
+  getAttributes?: () => Record<string, string>;
+}
+
+/**
+ * Type alias for the phases a frame of the frame scheduler is split
+ * into, in the order they run.
+ * - `"read"` - Measure the DOM, e.g. with `getBoundingClientRect`
+ * - `"update"` - Compute, e.g. integrate the springs
+ * - `"write"` - Mutate the DOM, e.g. write the animated styles
+ */
+export type FramePhase = "read" | "update" | "write";
+
+/**
+ * Type alias for the priorities of the jobs of the frame scheduler.
+ * Low priority jobs are deferred to the next frame once the frame
+ * budget is spent.
+ */
+export type FramePriority = "high" | "normal" | "low";
+
+/**
+ * Type alias for the options of a job of the frame scheduler.
+ */
+export interface FrameJobOptions {
+  /**
+   * The phase of the frame to run the job in (Defaults to `"update"`).
+   */
+  phase?: FramePhase;
+  /**
+   * The priority of the job within its phase (Defaults to `"normal"`).
+   */
+  priority?: FramePriority;
+}
+
+/**
+ * Type alias for a job of the frame scheduler.
+ */
+export interface FrameJob extends Required<FrameJobOptions> {
+  /**
+   * The ID of the job.
+   */
+  id: number;
+  /**
+   * The callback of the job, called with the time of the frame.
+   */
+  callback: FrameRequestCallback;
+  /**
+   * Whether the job runs on every frame until it is removed.
+   */
+  repeat: boolean;
+}
+
+/**
+ * Type alias for the source of the frames of the frame scheduler.
+ */
+export interface FrameSource {
+  /**
+   * Request a frame, e.g. with `requestAnimationFrame`.
+   *
+   * @param callback The callback to call with the time of the frame
+   * @returns The ID of the frame request
+   */
+  requestFrame: (callback: FrameRequestCallback) => number;
+  /**
+   * Cancel a frame request.
+   *
+   * @param id The ID of the frame request
+   */
+  cancelFrame: (id: number) => void;
+}
+
+/**
+ * Type alias for the options of the frame scheduler.
+ */
+export interface FrameSchedulerOptions {
+  /**
+   * The time the jobs of a frame can take, in milliseconds, before the
+   * low priority jobs are deferred to the next frame (Defaults to `8`).
+   */
+  frameBudget?: number;
+  /**
+   * Get the current time in milliseconds, to measure the time spent
+   * on a frame (Defaults to `performance.now`).
+   */
+  now?: () => number;
+}
+
+/**
+ * Type alias for the statistics of the frames, measured by the
+ * frame stats tracker.
+ */
+export interface FrameStats {
+  /**
+   * The number of frames per second, over the recent frames.
+   */
+  fps: number;
+  /**
+   * The average time between two frames, in milliseconds, over the
+   * recent frames.
+   */
+  averageFrameTime: number;
+  /**
+   * The longest time between two frames, in milliseconds, over the
+   * recent frames.
+   */
+  maxFrameTime: number;
+  /**
+   * The median time between two frames, in milliseconds, over the
+   * recent frames.
+   */
+  p50: number;
+  /**
+   * The 95th percentile of the time between two frames, in
+   * milliseconds, over the recent frames.
+   */
+  p95: number;
+  /**
+   * The 99th percentile of the time between two frames, in
+   * milliseconds, over the recent frames.
+   */
+  p99: number;
+  /**
+   * The number of frames measured since the tracker started.
+   */
+  frameCount: number;
+  /**
+   * The number of frames missed since the tracker started, at the
+   * target frame rate.
+   */
+  droppedFrames: number;
+  /**
+   * The number of frames that took longer than the long frame
+   * threshold since the tracker started.
+   */
+  longFrames: number;
+}
+
+/**
+ * Type alias for the options of the frame stats tracker.
+ */
+export interface FrameStatsOptions {
+  /**
+   * The number of recent frames to compute the frame rate and the
+   * percentiles over (Defaults to `120`).
+   */
+  sampleSize?: number;
+  /**
+   * The frame rate to count the dropped frames against (Defaults to `60`).
+   */
+  targetFps?: number;
+  /**
+   * The time between two frames, in milliseconds, above which a frame
+   * is a long frame (Defaults to `50`).
+   */
+  longFrameThreshold?: number;
+}
+
+/**
+ * Type alias for a function formatting the values of the animated
+ * properties to a keyframe of a web animation.
+ */
+export type WebAnimationFormat = (values: Record<string, number>) => Keyframe;
+
+/**
+ * Type alias for a listener of an animated value.
+ */
+export type AnimatedValueListener<T> = (value: T) => void;
+
+/**
+ * Type alias for the options of an interpolation between ranges.
+ */
+export interface InterpolationOptions {
+  /**
+   * Whether to clamp the output to the output range, instead of
+   * extrapolating past its ends.
+   */
+  clamp?: boolean;
+  /**
+   * The easing function applied to the progress within each segment
+   * of the ranges.
+   */
+  easing?: EasingFn;
+  /**
+   * The color space to interpolate colors in (Defaults to `"srgb"`).
+   */
+  colorSpace?: ColorSpace;
+}
+
+/**
+ * Type alias for the box of an element in the page, in pixels.
+ */
+export interface LayoutBox {
+  /**
+   * The left edge of the box, from the left edge of the page.
+   */
+  x: number;
+  /**
+   * The top edge of the box, from the top edge of the page.
+   */
+  y: number;
+  /**
+   * The width of the box.
+   */
+  width: number;
+  /**
+   * The height of the box.
+   */
+  height: number;
+}
+
+/**
+ * Type alias for the transform that moves a layout box, around the
+ * center of the box.
+ */
+export interface LayoutTransform {
+  /**
+   * The x translation, in pixels.
+   */
+  translateX: number;
+  /**
+   * The y translation, in pixels.
+   */
+  translateY: number;
+  /**
+   * The x scale.
+   */
+  scaleX: number;
+  /**
+   * The y scale.
+   */
+  scaleY: number;
+}
+
+/**
+ * Type alias for a point of a drag gesture, in pixels. An omitted
+ * coordinate matches any value on its axis.
+ */
+export interface DragPoint {
+  /**
+   * The x coordinate.
+   */
+  x?: number;
+  /**
+   * The y coordinate.
+   */
+  y?: number;
+}
+
+/**
+ * Type alias for the bounds of a drag gesture, in pixels from the
+ * position the element is dragged from. Omitted bounds are unbounded.
+ */
+export interface DragBounds {
+  /**
+   * The lowest x position.
+   */
+  left?: number;
+  /**
+   * The highest x position.
+   */
+  right?: number;
+  /**
+   * The lowest y position.
+   */
+  top?: number;
+  /**
+   * The highest y position.
+   */
+  bottom?: number;
+}
+
+/**
+ * Type alias for an edge of an element or of a viewport along the
+ * scroll axis: its start, its center, its end, or a fraction of its
+ * length from its start.
+ */
+export type ScrollEdge = "start" | "center" | "end" | number;
+
+/**
+ * Type alias for where an edge of a target meets an edge of a
+ * viewport, e.g. `"start end"` when the start of the target meets the
+ * end of the viewport.
+ */
+export type ScrollIntersection =
+  | `${"start" | "center" | "end"} ${"start" | "center" | "end"}`
+  | [target: ScrollEdge, viewport: ScrollEdge];
+
+/**
+ * Type alias for the intersections of a target and a viewport that
+ * the scroll progress goes from `0` to `1` between.
+ */
+export type ScrollOffset = [start: ScrollIntersection, end: ScrollIntersection];
+
+/**
+ * Type alias for the axis a scroll progress is measured along.
+ */
+export type ScrollAxis = "x" | "y";
+
+/**
+ * Type alias for the ranges of animatable properties that a progress
+ * between `0` and `1` is mapped to.
+ */
+export type ProgressRanges = {
+  [Prop in keyof AnimatableProps]?: [
+    from: AnimatableProps[Prop],
+    to: AnimatableProps[Prop],
+  ];
+};
+
 /**
  * Type alias of a wrapper for mapping a tuple of numbers
  * to springs.
@@ -927,15 +1553,212 @@ export type AnimatableNumericalProperties = {
   >[0];
 };
 
+/**
+ * Type alias for the CSS units animated lengths can be in.
+ */
+export type CSSUnit =
+  | "px"
+  | "%"
+  | "em"
+  | "rem"
+  | "vw"
+  | "vh"
+  | "vmin"
+  | "vmax"
+  | "pt"
+  | "pc"
+  | "in"
+  | "cm"
+  | "mm";
+
+/**
+ * Type alias for a number with a CSS unit, e.g. `{ value: 2, unit: "rem" }`.
+ */
+export interface UnitValue {
+  /**
+   * The number to animate.
+   */
+  value: number;
+  /**
+   * The unit of the number.
+   */
+  unit: CSSUnit;
+}
+
+/**
+ * Type alias for an animated length: a number of pixels, a string
+ * with a unit (e.g. `"50%"`), a `calc()` sum of lengths (e.g.
+ * `"calc(50% + 10px)"`) or a UnitValue.
+ */
+export type AnimatableLength = number | string | UnitValue;
+
+/**
+ * Type alias for an animated box shadow, as its offsets and radii in
+ * pixels followed by the components of its color, and optionally by
+ * whether it is an inset shadow (`1`) or an outer shadow (`0`).
+ */
+export type BoxShadowTuple =
+  | [
+      x: number,
+      y: number,
+      blur: number,
+      spread: number,
+      r: number,
+      g: number,
+      b: number,
+    ]
+  | [
+      x: number,
+      y: number,
+      blur: number,
+      spread: number,
+      r: number,
+      g: number,
+      b: number,
+      a: number,
+    ]
+  | [
+      x: number,
+      y: number,
+      blur: number,
+      spread: number,
+      r: number,
+      g: number,
+      b: number,
+      a: number,
+      inset: number,
+    ];
+
+/**
+ * Type alias for several animated box shadows, as the 9 numbers of the
+ * `{@link BoxShadowTuple}` of each shadow, inset flag included, one
+ * after the other. An empty list is no shadow.
+ */
+export type BoxShadowList = number[];
+
+/**
+ * Type alias for an animated `inset()` clip path, in percents.
+ */
+export type ClipInsetTuple = [
+  top: number,
+  right: number,
+  bottom: number,
+  left: number,
+];
+
+/**
+ * Type alias for an animated `circle()` clip path, in percents.
+ */
+export type ClipCircleTuple = [radius: number, x: number, y: number];
+
+/**
+ * Type alias for an animated SVG `viewBox`.
+ */
+export type ViewBoxTuple = [
+  minX: number,
+  minY: number,
+  width: number,
+  height: number,
+];
+
+/**
+ * Type alias for the animatable filter properties.
+ */
+export type AnimatableFilterProperties = {
+  [key in keyof typeof filterProperties]: number;
+};
+
+/**
+ * Type alias for the animatable SVG attributes.
+ */
+export type AnimatableSVGAttributes = {
+  [key in keyof typeof svgAttributes]: Parameters<
+    (typeof svgAttributes)[key]
+  >[0];
+};
+
+/**
+ * Type alias for the animatable CSS custom properties, e.g.
+ * `--brand-color`, as numbers, lengths or colors.
+ */
+export type AnimatableCustomProperties = {
+  [key: `--${string}`]: number | UnitValue | ColorTuple | string;
+};
+
+/**
+ * Type alias for an animated `rotate3d()`, as the axis of the rotation
+ * and its angle in degrees.
+ */
+export type Rotate3dTuple = [x: number, y: number, z: number, angle: number];
+
+/**
+ * Type alias for an animated transform matrix, as the 6 numbers of
+ * `matrix()` or the 16 numbers of `matrix3d()`.
+ */
+export type TransformMatrix = number[];
+
+/**
+ * Type alias for the steps of a transform, composed in order.
+ * - `translate` - `translate()` or `translate3d()`
+ * - `scale` - `scale()` and `scaleZ()`
+ * - `rotate` - `rotateX()`, `rotateY()` and `rotateZ()`
+ * - `rotate3d` - `rotate3d()`
+ * - `skew` - `skew()`
+ * - `matrix` - `matrix()` or `matrix3d()`
+ */
+export type TransformStep =
+  | "translate"
+  | "scale"
+  | "rotate"
+  | "rotate3d"
+  | "skew"
+  | "matrix";
+
+/**
+ * Type alias for a transform origin: a CSS value, e.g. `"top left"`,
+ * or the x, y and z positions of the origin.
+ */
+export type TransformOrigin =
+  | string
+  | [x: AnimatableLength, y: AnimatableLength]
+  | [x: AnimatableLength, y: AnimatableLength, z: AnimatableLength];
+
+/**
+ * Type alias for the options of the composed transform.
+ */
+export interface TransformOptions {
+  /**
+   * The order of the transform steps, from the outermost to the
+   * innermost. The steps missing from the order follow in the default
+   * order, and the `perspective` always comes first.
+   */
+  transformOrder?: TransformStep[];
+  /**
+   * The origin of the transform.
+   */
+  transformOrigin?: TransformOrigin;
+}
+
 /**
  * Type alias for the animatable transform properties.
  */
 export type AnimatableTransformProperties = {
-  [key in keyof typeof transformProperties]: number;
+  [key in keyof typeof transformProperties]: key extends
+    | `translate${string}`
+    | "perspective"
+    ? AnimatableLength
+    : key extends "rotate3d"
+      ? Rotate3dTuple
+      : key extends "matrix"
+        ? TransformMatrix
+        : number;
 };
 
 /**
  * Type alias for the animatable properties.
  */
 export type AnimatableProps = AnimatableTransformProperties &
-  AnimatableNumericalProperties;
+  AnimatableNumericalProperties &
+  AnimatableFilterProperties &
+  AnimatableSVGAttributes &
+  AnimatableCustomProperties;
@@ -1,5 +1,12 @@
 import type { ZoomState } from "../enums/sensors.ts";
 
+import type {
+  FrameStatsOptions,
+  ScrollAxis,
+  ScrollOffset,
+  SpringConfigInput,
+} from "./logic.ts";
+
 /**
  * Type alias for the state of the device battery state,
  * used by the {@link useBattery} hook.
@@ -193,6 +200,30 @@ export type UseScrollReturn = {
   y: number;
 };
 
+/**
+ * Type alias for the options of the {@link useScrollProgress} hook.
+ */
+export interface UseScrollProgressOptions {
+  /**
+   * The scroll container the target scrolls through (Defaults to the window).
+   */
+  container?: React.RefObject<HTMLElement | null | undefined>;
+  /**
+   * The intersections of the target and of the viewport that the
+   * progress goes from `0` to `1` between.
+   */
+  offset?: ScrollOffset;
+  /**
+   * The axis to measure the progress along (Defaults to `"y"`).
+   */
+  axis?: ScrollAxis;
+  /**
+   * Whether to smooth the progress with a spring, or the config of
+   * the spring (Defaults to `false`).
+   */
+  smooth?: boolean | SpringConfigInput;
+}
+
 /**
  * Type alias for the state of the size sensor returned by the {@link useSize} hook.
  */
@@ -911,3 +942,19 @@ export type UseScratchReturn = [
    */
   state: ScratchState,
 ];
+
+/**
+ * Type alias for the options of the {@link useFrameStats} hook.
+ */
+export interface UseFrameStatsOptions extends FrameStatsOptions {
+  /**
+   * (Optional) Whether the frames are measured. The measure starts over
+   * when it is enabled again (Defaults to `true`).
+   */
+  enabled?: boolean;
+  /**
+   * (Optional) The time between two updates of the statistics, in
+   * milliseconds (Defaults to `500`).
+   */
+  updateInterval?: number;
+}